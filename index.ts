@@ -20,10 +20,12 @@ export { FailureOperationForbidden } from './src/errors/FailureOperationForbidde
 export { FailureMinimumRequiredOperators } from './src/errors/FailureMinimumRequiredOperators'
 export { FailureInvalidCommand } from './src/errors/FailureInvalidCommand'
 export { FailureMissingArgument } from './src/errors/FailureMissingArgument'
+export { FailureCommandValidation } from './src/errors/FailureCommandValidation'
 
 // models
 export { AllowanceResult } from './src/models/AllowanceResult'
 export { CommandOption } from './src/models/CommandOption'
+export { ExecutionMode } from './src/models/ExecutionMode'
 export { NetworkConfig } from './src/models/NetworkConfig'
 export { Notification } from './src/models/Notification'
 export { NotificationProof } from './src/models/NotificationProof'
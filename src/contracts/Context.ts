@@ -89,14 +89,19 @@ export class Context {
     name: string,
     value: ValueType,
   ): Context {
-    if (undefined === this.argv) {
-      this.argv = []
-    }
-
-    this.argv.push(new CommandOption(
+    const input = new CommandOption(
       name,
       value,
-    ))
+    )
+
+    // :note: options are copied so that the caller's argv is never modified
+    const argv = undefined !== this.argv ? this.argv : []
+    const exists = argv.some(opt => opt.name === name)
+
+    // overwrite existing inputs
+    this.argv = exists
+      ? argv.map(opt => opt.name === name ? input : opt)
+      : argv.concat([input])
 
     return this
   }
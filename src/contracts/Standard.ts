@@ -62,14 +62,14 @@ export interface Standard {
    * @param   {PublicAccount}   account
    * @param   {Notification}    notification
    * @param   {TransactionParameters} parameters
-   * @return  {NotificationProof}
+   * @return  {Promise<NotificationProof>}
    **/
   notify(
     tokenId: TokenIdentifier,
     account: PublicAccount,
     notification: Notification,
     parameters: TransactionParameters,
-  ): NotificationProof
+  ): Promise<NotificationProof>
 
   /**
    * Verifies **allowance** of `sender` to transfer `tokenId` security token
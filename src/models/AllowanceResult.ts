@@ -26,6 +26,7 @@ export class AllowanceResult {
    *
    * @param {boolean} status
    * @param {string|undefined} message (Optional)
+   * @param {string|undefined} code (Optional)
    */
   public constructor(
     /**
@@ -37,6 +38,11 @@ export class AllowanceResult {
      * @description The result message (Optional)
      */
     public message: string | undefined = undefined,
+
+    /**
+     * @description The machine-readable result code (Optional)
+     */
+    public code: string | undefined = undefined,
   )
   {}
 }
@@ -0,0 +1,27 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @enum ExecutionMode
+ * @package models
+ * @since v0.5.3
+ * @description Enumeration of token command contract execution modes.
+ */
+export enum ExecutionMode {
+  Bonded = 'bonded', // aggregate bonded (requires a hash lock)
+  Complete = 'complete', // aggregate complete (all signatures are present)
+  Auto = 'auto', // aggregate complete when all signers are derivable
+}
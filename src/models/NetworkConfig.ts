@@ -39,6 +39,11 @@ export class NetworkConfig {
    * @param {NetworkType} networkType
    * @param {string}      generationHash
    * @param {MosaicId}    feeMosaicId
+   * @param {number}      lockAmount    (Optional) Hash lock amount (absolute), defaults to 10 units.
+   * @param {number}      lockDuration  (Optional) Hash lock duration in blocks, defaults to 480 blocks.
+   * @param {number}      maxTransactionsPerAggregate (Optional) Defaults to 100.
+   * @param {number}      maxCosignaturesPerAggregate (Optional) Defaults to 25.
+   * @param {number}      defaultDuration (Optional) Namespace and mosaic duration in blocks, defaults to 2010240.
    */
   public constructor(
     /**
@@ -60,6 +65,31 @@ export class NetworkConfig {
      * @description The network fee mosaic id
      */
     public feeMosaicId: MosaicId,
+
+    /**
+     * @description The hash lock amount (absolute amount of fee mosaic)
+     */
+    public lockAmount: number = 10000000,
+
+    /**
+     * @description The hash lock duration (in blocks)
+     */
+    public lockDuration: number = 480,
+
+    /**
+     * @description The maximum number of inner transactions per aggregate
+     */
+    public maxTransactionsPerAggregate: number = 100,
+
+    /**
+     * @description The maximum number of cosignatures per aggregate
+     */
+    public maxCosignaturesPerAggregate: number = 25,
+
+    /**
+     * @description The default namespace and mosaic rental duration (in blocks, 1 year at 15 sec / block)
+     */
+    public defaultDuration: number = 2010240,
   ) {
     this.factoryHttp = new RepositoryFactoryHttp(gatewayUrl, networkType, generationHash)
   }
@@ -17,6 +17,7 @@ import { Address } from 'symbol-sdk'
 
 // internal dependencies
 import { TokenIdentifier } from './TokenIdentifier'
+import { NotificationProof } from './NotificationProof'
 
 /**
  * @class Notification
@@ -30,6 +31,7 @@ export class Notification {
    *
    * @param {Address|TokenIdentifier} target
    * @param {string} message
+   * @param {NotificationProof|undefined} proof (Optional)
    */
   public constructor(
     /**
@@ -41,6 +43,11 @@ export class Notification {
      * @description The notification message
      */
     public message: string,
+
+    /**
+     * @description The notification proof (Optional)
+     */
+    public proof: NotificationProof | undefined = undefined,
   )
   {}
 }
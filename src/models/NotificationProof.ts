@@ -13,6 +13,7 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { TransactionURI } from 'symbol-uri-scheme'
 
 /**
  * @class NotificationProof
@@ -25,12 +26,18 @@ export class NotificationProof {
    * Constructor for NotificationProof objects
    *
    * @param {string} transactionHash
+   * @param {TransactionURI|undefined} uri (Optional)
    */
   public constructor(
     /**
      * @description The notification transaction hash
      */
     public transactionHash: string,
+
+    /**
+     * @description The notification contract (Optional)
+     */
+    public uri: TransactionURI | undefined = undefined,
   )
   {}
 }
@@ -31,7 +31,8 @@ import { Wallet } from 'symbol-hd-wallets'
  * @since v0.1.0
  * @description Model that describes partitions of tokens. A partition
  *              is created around an \a owner public key (32 bytes) and
- *              an \a amount (1-8 bytes) and a \a name
+ *              an \a amount (1-8 bytes) and a \a name. The \a nonce is
+ *              the collision resolution step used to derive the account.
  */
 export class TokenPartition {
   /**
@@ -59,6 +60,11 @@ export class TokenPartition {
      * @description The amount of the partition
      */
     public amount: number,
+
+    /**
+     * @description The derivation nonce of the partition account (defaults to 0)
+     */
+    public nonce: number = 0,
   )
   {
   }
@@ -78,5 +84,6 @@ export class TokenPartition {
         && this.account.address.equals(rhs.account.address)
         && this.amount === rhs.amount
         && this.name === rhs.name
+        && this.nonce === rhs.nonce
   }
 }
@@ -18,6 +18,9 @@ import {
   UInt64,
 } from 'symbol-sdk'
 
+// internal dependencies
+import { ExecutionMode } from './ExecutionMode'
+
 /**
  * @class TransactionParameters
  * @package contracts
@@ -35,6 +38,7 @@ export class TransactionParameters {
    *
    * @param {Deadline}            Deadline
    * @param {UInt64|undefined}    maxFee
+   * @param {ExecutionMode}       executionMode
    */
   public constructor(
     /**
@@ -47,6 +51,10 @@ export class TransactionParameters {
      */
     public maxFeeInt?: number,
 
+    /**
+     * @description The contract execution mode (defaults to aggregate bonded)
+     */
+    public executionMode: ExecutionMode = ExecutionMode.Bonded,
   ) {
     if (this.maxFeeInt !== undefined) {
       this.maxFee = UInt64.fromUint(this.maxFeeInt)
@@ -15,11 +15,17 @@
  */
 import { TransactionURI } from 'symbol-uri-scheme'
 import {
+  Account,
+  AggregateTransaction,
   Convert,
+  Mosaic,
   PublicAccount,
   SHA3Hasher,
   MosaicInfo,
   MosaicId,
+  MultisigAccountInfo,
+  TransactionMapping,
+  UInt64,
 } from 'symbol-sdk'
 import {
   MnemonicPassPhrase,
@@ -33,6 +39,7 @@ import {
   Command,
   CommandOption,
   FailureInvalidCommand,
+  FailureOperationForbidden,
   NetworkConfig,
   Notification,
   NotificationProof,
@@ -45,13 +52,42 @@ import {
 } from '../../index'
 import { SecuritiesMetadata } from './NIP13/models/SecuritiesMetadata'
 import { SecuritiesRestrictions } from './NIP13/models/SecuritiesRestrictions'
+import { CommandPlan } from './NIP13/models/CommandPlan'
+import { FeeEstimate } from './NIP13/models/FeeEstimate'
+import { SigningResult } from './NIP13/models/SigningResult'
+import { AnnounceEvent } from './NIP13/models/AnnounceEvent'
+import { ContractChunk } from './NIP13/models/ContractChunk'
+import { TokenExpiry } from './NIP13/models/TokenExpiry'
+import { SplitReport } from './NIP13/models/SplitReport'
+import { SplitReportEntry } from './NIP13/models/SplitReportEntry'
+import { FractionalPolicy } from './NIP13/models/FractionalPolicy'
+import { CapTableSnapshot } from './NIP13/models/CapTableSnapshot'
+import { UserRole } from './NIP13/models/UserRole'
+import { RoleAssignment } from './NIP13/models/RoleAssignment'
+import { VestingSchedule, VestingUnit } from './NIP13/models/VestingSchedule'
+import { SwapSecret } from './NIP13/models/SwapSecret'
+import { SwapLock } from './NIP13/models/SwapLock'
+import { QuorumPolicy, QuorumRule } from './NIP13/models/QuorumPolicy'
+import { PartitionMetadata } from './NIP13/models/PartitionMetadata'
+import { StateScope } from './NIP13/models/StateScope'
+import { Announcer } from './NIP13/contracts/Announcer'
+import { NetworkAnnouncer } from './NIP13/announcers/NetworkAnnouncer'
+import { InMemoryAnnouncer } from './NIP13/announcers/InMemoryAnnouncer'
 import { Accountable } from './NIP13/contracts/Accountable'
-import { MultisigService } from './NIP13/services/MultisigService'
-import { MetadataService } from './NIP13/services/MetadataService'
-import { RestrictionService } from './NIP13/services/RestrictionService'
-import { PartitionService } from './NIP13/services/PartitionService'
+import { CapTableExporter } from './NIP13/contracts/CapTableExporter'
+import { CsvExporter } from './NIP13/exporters/CsvExporter'
+import { JsonExporter } from './NIP13/exporters/JsonExporter'
+import { TokenStateProvider } from './NIP13/contracts/TokenStateProvider'
+import { NetworkStateProvider } from './NIP13/providers/NetworkStateProvider'
+import { InMemoryStateProvider } from './NIP13/providers/InMemoryStateProvider'
 import { MosaicService } from './NIP13/services/MosaicService'
+import { FeeService } from './NIP13/services/FeeService'
+import { SignerService } from './NIP13/services/SignerService'
+import { AnnounceService } from './NIP13/services/AnnounceService'
 import { AbstractCommand } from './NIP13/commands/AbstractCommand'
+import { StockSplit } from './NIP13/commands/StockSplit'
+import { FailurePartitionCollision } from './NIP13/errors/FailurePartitionCollision'
+import { FailureUnknownPartition } from './NIP13/errors/FailureUnknownPartition'
 
 /**
  * @type NIP13.CommandFn
@@ -91,6 +127,215 @@ export class TokenMetadata extends SecuritiesMetadata {}
  */
 export class TokenRestrictions extends SecuritiesRestrictions {}
 
+/**
+ * @type NIP13.TokenStateProvider
+ * @package standards
+ * @since v0.5.3
+ * @description Interface that describes NIP13 token state providers
+ * @see {TokenStateProvider}
+ */
+export { TokenStateProvider }
+
+/**
+ * @type NIP13.TokenStateFixture
+ * @package standards
+ * @since v0.5.3
+ * @description Type that describes JSON fixtures of NIP13 token state
+ * @see {InMemoryStateProvider}
+ */
+export { TokenStateFixture } from './NIP13/providers/InMemoryStateProvider'
+
+/**
+ * @type NIP13.NetworkTokenState
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token state read from the network
+ * @see {NetworkStateProvider}
+ */
+export class NetworkTokenState extends NetworkStateProvider {}
+
+/**
+ * @type NIP13.InMemoryTokenState
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token state read from memory
+ * @see {InMemoryStateProvider}
+ */
+export class InMemoryTokenState extends InMemoryStateProvider {}
+
+/**
+ * @type NIP13.CommandPlan
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token command plans (dry-run)
+ * @see {CommandPlan}
+ */
+export { CommandPlan }
+export { CommandPlanStep, SignerRole } from './NIP13/models/CommandPlanStep'
+
+/**
+ * @type NIP13.FeeEstimate
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token command fee estimations
+ * @see {FeeEstimate}
+ */
+export { FeeEstimate }
+
+/**
+ * @type NIP13.SigningResult
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token command contracts signed with derived keys
+ * @see {SigningResult}
+ */
+export { SigningResult }
+
+/**
+ * @type NIP13.Announcer
+ * @package standards
+ * @since v0.5.3
+ * @description Interface that describes NIP13 token command contract announcers
+ * @see {Announcer}
+ */
+export { Announcer, AnnounceEvent }
+export { AnnounceStep } from './NIP13/models/AnnounceEvent'
+
+/**
+ * @type NIP13.NetworkTokenAnnouncer
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 contract announcers that broadcast to the network
+ * @see {NetworkAnnouncer}
+ */
+export class NetworkTokenAnnouncer extends NetworkAnnouncer {}
+
+/**
+ * @type NIP13.InMemoryTokenAnnouncer
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 contract announcers that record in memory
+ * @see {InMemoryAnnouncer}
+ */
+export class InMemoryTokenAnnouncer extends InMemoryAnnouncer {}
+
+/**
+ * @type NIP13.ContractChunk
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes one of multiple ordered NIP13 token command contracts
+ * @see {ContractChunk}
+ */
+export { ContractChunk }
+
+/**
+ * @type NIP13.TokenExpiry
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes the expiry of NIP13 token namespaces and mosaics
+ * @see {TokenExpiry}
+ */
+export { TokenExpiry }
+
+/**
+ * @type NIP13.SplitReport
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 partition balances before and after a split
+ * @see {SplitReport}
+ */
+export { SplitReport, SplitReportEntry, FractionalPolicy }
+
+/**
+ * @type NIP13.CapTableSnapshot
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 token holder balances at a given block height
+ * @see {CapTableSnapshot}
+ */
+export { CapTableSnapshot }
+
+/**
+ * @type NIP13.CapTableExporter
+ * @package standards
+ * @since v0.5.3
+ * @description Interface that describes NIP13 cap table exporters
+ * @see {CapTableExporter}
+ */
+export { CapTableExporter }
+
+/**
+ * @type NIP13.CsvCapTableExporter
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 cap table exporters for CSV documents
+ * @see {CsvExporter}
+ */
+export class CsvCapTableExporter extends CsvExporter {}
+
+/**
+ * @type NIP13.JsonCapTableExporter
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes NIP13 cap table exporters for JSON documents
+ * @see {JsonExporter}
+ */
+export class JsonCapTableExporter extends JsonExporter {}
+
+/**
+ * @type NIP13.UserRole
+ * @package standards
+ * @since v0.5.3
+ * @description Enumeration of NIP13 token user roles ('User_Role' restriction values)
+ * @see {UserRole}
+ */
+export { UserRole, RoleAssignment }
+
+/**
+ * @type NIP13.VestingSchedule
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes vesting schedules of locked NIP13 token balances
+ * @see {VestingSchedule}
+ */
+export { VestingSchedule, VestingUnit }
+
+/**
+ * @type NIP13.SwapSecret
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes secrets and proofs of NIP13 token swaps
+ * @see {SwapSecret}
+ */
+export { SwapSecret, SwapLock }
+
+/**
+ * @type NIP13.QuorumPolicy
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes multisig quorum policies of NIP13 token operators
+ * @see {QuorumPolicy}
+ */
+export { QuorumPolicy, QuorumRule }
+
+/**
+ * @type NIP13.PartitionMetadata
+ * @package standards
+ * @since v0.5.3
+ * @description Class that describes the account metadata of NIP13 token holder partitions
+ * @see {PartitionMetadata}
+ */
+export { PartitionMetadata }
+
+/**
+ * @type NIP13.StateScope
+ * @package standards
+ * @since v0.5.3
+ * @description Enumeration of optional NIP13 token state read in `synchronize()`
+ * @see {StateScope}
+ */
+export { StateScope }
+
 /**
  * @type NIP13.TokenAuthority
  * @package standards
@@ -187,6 +432,41 @@ export const TokenCommands: CommandsList = {
   'DelegateIssuerPower': (c, i, k): Command => new CommandsImpl.DelegateIssuerPower(c, i, k),
   'RevokeIssuerPower': (c, i, k): Command => new CommandsImpl.RevokeIssuerPower(c, i, k),
   'AttachDocument': (c, i, k): Command => new CommandsImpl.AttachDocument(c, i, k),
+  'MintTokens': (c, i, k): Command => new CommandsImpl.MintTokens(c, i, k),
+  'BurnTokens': (c, i, k): Command => new CommandsImpl.BurnTokens(c, i, k),
+  'RenewToken': (c, i, k): Command => new CommandsImpl.RenewToken(c, i, k),
+  'DistributeDividend': (c, i, k): Command => new CommandsImpl.DistributeDividend(c, i, k),
+  'StockSplit': (c, i, k): Command => new CommandsImpl.StockSplit(c, i, k),
+  'ReverseSplit': (c, i, k): Command => new CommandsImpl.ReverseSplit(c, i, k),
+  'ManageWhitelist': (c, i, k): Command => new CommandsImpl.ManageWhitelist(c, i, k),
+  'CreateVestingSchedule': (c, i, k): Command => new CommandsImpl.CreateVestingSchedule(c, i, k),
+  'ReleaseVested': (c, i, k): Command => new CommandsImpl.ReleaseVested(c, i, k),
+  'SettleTrade': (c, i, k): Command => new CommandsImpl.SettleTrade(c, i, k),
+  'LockSwap': (c, i, k): Command => new CommandsImpl.LockSwap(c, i, k),
+  'ClaimSwap': (c, i, k): Command => new CommandsImpl.ClaimSwap(c, i, k),
+  'RefundSwap': (c, i, k): Command => new CommandsImpl.RefundSwap(c, i, k),
+  'MovePartitionBalance': (c, i, k): Command => new CommandsImpl.MovePartitionBalance(c, i, k),
+  'SplitPartition': (c, i, k): Command => new CommandsImpl.SplitPartition(c, i, k),
+  'MergePartitions': (c, i, k): Command => new CommandsImpl.MergePartitions(c, i, k),
+  'ClosePartition': (c, i, k): Command => new CommandsImpl.ClosePartition(c, i, k),
+  'ReassignPartitionOwner': (c, i, k): Command => new CommandsImpl.ReassignPartitionOwner(c, i, k),
+  'ChangeOperatorThreshold': (c, i, k): Command => new CommandsImpl.ChangeOperatorThreshold(c, i, k),
+  'Notify': (c, i, k): Command => new CommandsImpl.Notify(c, i, k),
+}
+
+/**
+ * @var NIP13.TokenScopes
+ * @package standards
+ * @since v0.5.3
+ * @description Object that describes the optional token state that NIP13 token
+ *              commands read in `synchronize()`. Commands that are not listed
+ *              only read the token operators, mosaic, partitions and balances.
+ */
+export const TokenScopes: {[command: string]: StateScope[]} = {
+  'ReleaseVested': [StateScope.Vesting],
+  'ClaimSwap': [StateScope.Swaps],
+  'RefundSwap': [StateScope.Swaps],
+  'ManageWhitelist': [StateScope.Roles],
 }
 
 /**
@@ -226,6 +506,46 @@ export class TokenStandard extends Accountable implements Standard {
    */
   public operators: PublicAccount[] = []
 
+  /**
+   * @description Multisig account information of the target account (read from network).
+   */
+  public multisigInfo: MultisigAccountInfo | undefined
+
+  /**
+   * @description Operators quorum policy of said token (read from network).
+   */
+  public quorumPolicy: QuorumPolicy | undefined
+
+  /**
+   * @description Mosaic balances of the target account and token holders (read from network).
+   */
+  public balances: {[address: string]: Mosaic[]} = {}
+
+  /**
+   * @description Current chain height (read from network).
+   */
+  public height: UInt64 = UInt64.fromUint(0)
+
+  /**
+   * @description Chain time at the current chain height (read from network).
+   */
+  public timestamp: number = 0
+
+  /**
+   * @description Swap locks of said token (read from network).
+   */
+  public swapLocks: SwapLock[] = []
+
+  /**
+   * @description User roles of said token (read from network).
+   */
+  public roles: RoleAssignment[] = []
+
+  /**
+   * @description Vesting schedules of token locker accounts (read from network).
+   */
+  public vestingSchedules: {[address: string]: VestingSchedule} = {}
+
   /**
    * @description Partition records of said token.
    */
@@ -247,11 +567,18 @@ export class TokenStandard extends Accountable implements Standard {
    */
   public result?: TransactionURI
 
+  /**
+   * @description The token state provider used in `synchronize()`.
+   */
+  public stateProvider: TokenStateProvider
+
   /**
    * Constructs a NIP13 token standard object.
    *
    * @param {NetworkConfig}       network
    * @param {MnemonicPassPhrase}  bip39 
+   * @param {TokenStateProvider}  stateProvider (Optional) Defaults to reading state from the network.
+   * @param {number}              tokenIndex (Optional) Defaults to the first token of the mnemonic (`0`).
    */
   public constructor(
     /**
@@ -263,15 +590,53 @@ export class TokenStandard extends Accountable implements Standard {
      * @description The BIP39 mnemonic pass phrase used with said token.
      */
     protected readonly bip39: MnemonicPassPhrase,
+    stateProvider?: TokenStateProvider,
+    tokenIndex: number = 0,
   ) {
     // @see {Accountable}
-    super(network, bip39)
+    super(network, bip39, tokenIndex)
 
     // derive base keys
     this.target = this.getTarget().publicAccount
 
     // set network configuration
     this.source = new TokenSource(this.network.generationHash)
+
+    // set state provider (defaults to REST)
+    this.stateProvider = stateProvider || new NetworkStateProvider(
+      this.getContext(this.target, new TransactionParameters()),
+    )
+  }
+
+  /**
+   * List the security tokens of a BIP39 mnemonic pass phrase. The first
+   * \a size token indexes are derived and only tokens of which the mosaic
+   * information can be read with the state provider are returned.
+   *
+   * @param   {NetworkConfig}       network
+   * @param   {MnemonicPassPhrase}  bip39
+   * @param   {number}              size  (Optional) Defaults to the first 10 token indexes.
+   * @param   {TokenStateProvider}  stateProvider (Optional) Defaults to reading state from the network.
+   * @return  {Promise<TokenStandard[]>}
+   */
+  public static async getTokensFromMnemonic(
+    network: NetworkConfig,
+    bip39: MnemonicPassPhrase,
+    size: number = 10,
+    stateProvider?: TokenStateProvider,
+  ): Promise<TokenStandard[]> {
+    const tokens: TokenStandard[] = []
+    for (let i = 0; i < size; i ++) {
+      const token = new TokenStandard(network, bip39, stateProvider, i)
+
+      // unknown mosaics are not listed
+      const mosaicInfo = await token.stateProvider.getMosaicInfo(token.identifier)
+      if (undefined !== mosaicInfo) {
+        tokens.push(token)
+      }
+    }
+
+    return tokens
   }
 
   /**
@@ -296,46 +661,70 @@ export class TokenStandard extends Accountable implements Standard {
 
   /**
    * Synchronize the command execution with the network. This method shall
-   * be used to fetch data required for execution.
+   * be used to fetch data required for execution. Data is read using the
+   * token state provider (defaults to reading from the network).
+   *
+   * Optional token state is read only for the `scopes` that are listed,
+   * such that a failing endpoint does not break unrelated commands.
    *
    * @async
+   * @param   {StateScope[]}  scopes  (Optional) Defaults to reading all optional token state.
    * @return {Promise<boolean>}
    */
-  public async synchronize(): Promise<boolean> {
+  public async synchronize(
+    scopes: StateScope[] = Object.values(StateScope),
+  ): Promise<boolean> {
     // prepare
-    const target = this.target.address
-    const context = this.getContext(this.target, new TransactionParameters())
-    const multisig = new MultisigService(context)
-    const metadata = new MetadataService(context)
-    const restrictions = new RestrictionService(context)
-    const partitions = new PartitionService(context)
-
-    // initialize REST
-    const multisigHttp = context.network.factoryHttp.createMultisigRepository()
-    const mosaicHttp   = context.network.factoryHttp.createMosaicRepository()
-
-    // consolidate/reduce graph
-    const graph = await multisigHttp.getMultisigAccountGraphInfo(target).toPromise()
-    this.operators = multisig.getMultisigAccountInfoFromGraph(graph).map(
-      m => m.cosignatories
-    ).reduce((prev, it) => prev.concat(it))
+    const provider = this.stateProvider
+
+    // read chain height
+    this.height = await provider.getChainHeight()
+
+    // read operators
+    this.operators = await provider.getOperators(this.target)
+
+    // read operators quorum
+    this.multisigInfo = await provider.getMultisigInfo(this.target)
+    this.quorumPolicy = await provider.getQuorumPolicy(this.target)
 
     // read mosaic
-    this.mosaicInfo = await mosaicHttp.getMosaic(this.identifier.toMosaicId()).toPromise()
+    this.mosaicInfo = await provider.getMosaicInfo(this.identifier)
 
     // read partitions
-    this.partitions = await partitions.getPartitionsFromNetwork(
+    this.partitions = await provider.getPartitions(
       this.identifier,
       this.target,
       this.operators,
-      'NIP13(v' + context.revision + '):partition:' + this.identifier.id + ':' // label after this
+      'NIP13(v' + Revision + '):partition:' + this.identifier.id + ':' // label after this
     )
 
+    // read chain time and vesting schedules of token lockers
+    const lockers = scopes.includes(StateScope.Vesting) ? await provider.getLockers(this.identifier, this.target) : []
+    this.timestamp = scopes.includes(StateScope.Vesting) ? await provider.getChainTimestamp(this.height) : 0
+    this.vestingSchedules = {}
+    for (let i = 0, m = lockers.length; i < m; i ++) {
+      const schedule = await provider.getVestingSchedule(lockers[i])
+      if (undefined !== schedule) {
+        this.vestingSchedules[lockers[i].address.plain()] = schedule
+      }
+    }
+
+    // read balances of target, token holders and token lockers
+    this.balances = await provider.getBalances(this.partitions.map(p => p.owner).concat(lockers).reduce(
+      (prev, it) => prev.some(a => a.address.equals(it.address)) ? prev : prev.concat([it]), [this.target]
+    ))
+
+    // read swap locks
+    this.swapLocks = scopes.includes(StateScope.Swaps) ? await provider.getSwapLocks(this.identifier, this.target) : []
+
+    // read user roles
+    this.roles = scopes.includes(StateScope.Roles) ? await provider.getRoles(this.identifier, this.target) : []
+
     // read token metadata
-    this.metadata = await metadata.getMetadataFromNetwork(this.identifier)
+    this.metadata = await provider.getMetadata(this.identifier)
 
     // read token restrictions
-    this.restrictions = await restrictions.getRestrictionsFromNetwork(this.identifier)
+    this.restrictions = await provider.getRestrictions(this.identifier)
 
     // success exit
     return true
@@ -380,8 +769,10 @@ export class TokenStandard extends Accountable implements Standard {
 
   /**
    * Add a token holder partition for \a holder with deterministic
-   * \a partition account.
+   * \a partition account. When \a partition is the derived partition
+   * account of \a holder, derivation collisions are resolved.
    *
+   * @see {TokenStandard.resolvePartition}
    * @param {PublicAccount} actor 
    * @param partition 
    * @param holder 
@@ -396,16 +787,113 @@ export class TokenStandard extends Accountable implements Standard {
     // generate deterministic token identifier
     const tokenId = this.identifier
 
+    // resolve collisions of derived partition accounts
+    let nonce = 0
+    if (partition.address.equals(this.getPartition(holder, name).publicAccount.address)) {
+      const resolved = await this.resolvePartition(holder, name)
+      partition = resolved.account
+      nonce = resolved.nonce
+    }
+
     // execute token command `CreatePartition`
     this.result = await this.execute(actor, tokenId, 'CreatePartition', parameters, [
       new CommandOption('name', name),
       new CommandOption('partition', partition),
       new CommandOption('holder', holder),
+      new CommandOption('nonce', nonce),
     ])
 
     return this.result
   }
 
+  /**
+   * Split \a amount shares of the token holder partition \a partition
+   * into a new partition with name \a name. The new partition account
+   * is derived for the owner of \a partition and collisions are resolved.
+   *
+   * @see {TokenStandard.resolvePartition}
+   * @param   {PublicAccount}         actor
+   * @param   {PublicAccount}         partition   MUST be a partition account
+   * @param   {string}                name
+   * @param   {number}                amount
+   * @param   {TransactionParameters} parameters
+   * @return  {Promise<TransactionURI>}
+   */
+  public async splitPartition(
+    actor: PublicAccount,
+    partition: PublicAccount,
+    name: string,
+    amount: number,
+    parameters: TransactionParameters,
+  ): Promise<TransactionURI> {
+    // generate deterministic token identifier
+    const tokenId = this.identifier
+
+    // read state from REST API
+    await this.synchronize(this.getScopes('SplitPartition'))
+
+    // find partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    // resolve collisions of derived partition accounts
+    const resolved = await this.resolvePartition(the_partition.owner, name)
+
+    // execute token command `SplitPartition`
+    this.result = await this.execute(actor, tokenId, 'SplitPartition', parameters, [
+      new CommandOption('partition', partition),
+      new CommandOption('name', name),
+      new CommandOption('amount', amount),
+      new CommandOption('nonce', resolved.nonce),
+    ])
+
+    return this.result
+  }
+
+  /**
+   * Resolve the derived partition account of \a owner for the partition
+   * with name \a name. Partition accounts that are already used by a
+   * different owner or name are skipped by incrementing the derivation
+   * nonce. Synchronized partitions and the `NAME`, `OWNER` and `NONCE`
+   * metadata of partition accounts are checked, such that lookups of
+   * existing partitions reproduce the resolution.
+   *
+   * @param   {PublicAccount} owner
+   * @param   {string}        name
+   * @param   {number}        maxNonce  (Optional) Defaults to 10 collision resolution steps.
+   * @return  {Promise<{account: PublicAccount, nonce: number}>}
+   * @throws  {FailurePartitionCollision} On partition accounts of all nonces being used.
+   */
+  public async resolvePartition(
+    owner: PublicAccount,
+    name: string = 'default',
+    maxNonce: number = 10,
+  ): Promise<{ account: PublicAccount, nonce: number }> {
+    for (let nonce = 0; nonce <= maxNonce; nonce ++) {
+      const account = this.getPartition(owner, name, nonce).publicAccount
+
+      // read usage of the partition account
+      const known = this.partitions.find(p => p.account.address.equals(account.address))
+      const metadata = undefined !== known
+        ? new PartitionMetadata(known.name, known.owner.address.plain(), known.nonce)
+        : await this.stateProvider.getPartitionMetadata(account)
+
+      // partition account is unused or used by said partition
+      if (undefined === metadata || metadata.isUsedBy(owner, name)) {
+        return { account, nonce }
+      }
+    }
+
+    throw new FailurePartitionCollision(
+      'Partition accounts of "' + name + '" are used by different owners or names up to nonce ' + maxNonce + '.'
+    )
+  }
+
   /**
    * Transfer shares of a Security Token with identifier `tokenId`.
    *
@@ -473,20 +961,168 @@ export class TokenStandard extends Accountable implements Standard {
   }
 
   /**
-   * Notify an account `account` about `notification`
+   * Notify an account `account` about `notification`. The notification
+   * contract is executed and signed like other token commands, it can be
+   * announced with `announce()` using the same `parameters`.
+   *
+   * This method MUST call the `synchronize()` method.
    *
+   * @internal The notification marker is issued by the target account, which is
+   *           a multisig account after `CreateToken`. The contract is therefore
+   *           initiated and cosigned by operators.
    * @param   {TokenIdentifier} tokenId
-   * @param   {PublicAccount}   account
+   * @param   {PublicAccount}   account     Can be either of a partition account or any account
    * @param   {Notification}    notification
-   * @return  {NotificationProof}
+   * @param   {TransactionParameters} parameters
+   * @return  {Promise<NotificationProof>}
    **/
-  public notify(
+  public async notify(
     tokenId: TokenIdentifier,
     account: PublicAccount,
     notification: Notification,
     parameters: TransactionParameters,
-  ): NotificationProof {
-    return new NotificationProof('')
+  ): Promise<NotificationProof> {
+    // prepare `Notify` arguments
+    const argv: CommandOption[] = [
+      new CommandOption('account', account),
+      new CommandOption('notification', notification),
+    ]
+
+    // execute and sign `Notify`
+    const signing = await this.sign(this.target, tokenId, 'Notify', parameters, argv)
+
+    // the proof is the hash of the signed contract
+    return new NotificationProof(signing.signedTransaction.hash, this.result)
+  }
+
+  /**
+   * Read notifications sent for said token. If `recipient` is
+   * provided, only notifications sent to this account are read.
+   *
+   * @param   {PublicAccount|undefined} recipient   (Optional) The notified account
+   * @return  {Promise<Notification[]>}
+   **/
+  public async getNotifications(
+    recipient?: PublicAccount,
+  ): Promise<Notification[]> {
+    // read notifications from state provider
+    return this.stateProvider.getNotifications(
+      this.target,
+      'NIP13(v' + Revision + '):notify:' + this.identifier.id + ':', // message after this
+      recipient ? recipient.address : undefined,
+    )
+  }
+
+  /**
+   * Read the number of blocks remaining until the root namespace
+   * and the mosaic of said token expire. Use this to renew tokens
+   * with the `RenewToken` command ahead of time.
+   *
+   * @param   {string}  name    The token namespace name (e.g. "company.shares").
+   * @return  {Promise<TokenExpiry>}
+   **/
+  public async getExpiry(
+    name: string,
+  ): Promise<TokenExpiry> {
+    // read expiry from state provider
+    return this.stateProvider.getExpiry(this.identifier, name)
+  }
+
+  /**
+   * Read the balances of token holder partitions and of the target
+   * account at block `height` (e.g. a record date). The balances are
+   * reconstructed by replaying the token's transfer history.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {UInt64}  height    The snapshot block height.
+   * @return  {Promise<CapTableSnapshot>}
+   **/
+  public async getSnapshot(
+    height: UInt64,
+  ): Promise<CapTableSnapshot> {
+    // read state from REST API
+    await this.synchronize([])
+
+    // closed partitions are listed if they were closed after `height`
+    const closed = await this.stateProvider.getClosedPartitions(
+      this.identifier,
+      this.target,
+      this.operators,
+      'NIP13(v' + Revision + '):partition:' + this.identifier.id + ':',
+    )
+
+    // replay history with state provider
+    return this.stateProvider.getSnapshot(this.identifier, this.target, this.partitions.concat(closed), height)
+  }
+
+  /**
+   * Read the user roles of said token. Roles are read from the
+   * 'User_Role' address restrictions of the token mosaic.
+   *
+   * @return  {Promise<RoleAssignment[]>}
+   **/
+  public async getRoles(): Promise<RoleAssignment[]> {
+    // read restrictions from state provider
+    return this.stateProvider.getRoles(this.identifier, this.target)
+  }
+
+  /**
+   * Read the vesting schedule attached to the locker account
+   * `locker` and the number of shares that are still locked.
+   *
+   * @param   {PublicAccount}   locker    The token locker account.
+   * @return  {Promise<{schedule: VestingSchedule|undefined, balance: number}>}
+   **/
+  public async getVestingSchedule(
+    locker: PublicAccount,
+  ): Promise<{schedule: VestingSchedule | undefined, balance: number}> {
+    // read locker metadata and balance from state provider
+    const balances = await this.stateProvider.getBalances([locker])
+    const mosaic = (balances[locker.address.plain()] || []).find(
+      m => m.id.toHex() === this.identifier.toMosaicId().toHex()
+    )
+
+    return {
+      schedule: await this.stateProvider.getVestingSchedule(locker),
+      balance: undefined !== mosaic ? mosaic.amount.compact() : 0,
+    }
+  }
+
+  /**
+   * Read the swap locks of said token. Use `SwapLock.isRefundable()`
+   * to find expired locks that can be refunded with `RefundSwap`.
+   *
+   * @return  {Promise<SwapLock[]>}
+   **/
+  public async getSwapLocks(): Promise<SwapLock[]> {
+    // read swap locks from state provider
+    return this.stateProvider.getSwapLocks(this.identifier, this.target)
+  }
+
+  /**
+   * Export the holder register of said token using `exporter`. The
+   * export height defaults to the current chain height.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {CapTableExporter}  exporter
+   * @param   {UInt64|undefined}  height    (Optional) The export block height.
+   * @return  {Promise<string>}
+   **/
+  public async exportCapTable(
+    exporter: CapTableExporter,
+    height?: UInt64,
+  ): Promise<string> {
+    // read state from REST API
+    await this.synchronize([])
+
+    // export at the synchronized chain height by default
+    if (undefined === height) {
+      height = this.height
+    }
+
+    return exporter.export(this.identifier, this.partitions, this.metadata, height)
   }
 
   /**
@@ -561,14 +1197,231 @@ export class TokenStandard extends Accountable implements Standard {
     const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
 
     // populate async data
-    cmdFn.mosaicInfo = this.mosaicInfo
-    cmdFn.operators = this.operators
-    cmdFn.partitions = this.partitions
+    this.populateCommand(cmdFn, argv)
 
     // use `canExecute` for token command
     return cmdFn.canExecute(actor, argv)
   }
 
+  /**
+   * Explain `command` for Security Token with identifier `tokenId` without
+   * creating a contract (dry-run). The result lists the inner transactions
+   * that the command would produce.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {PublicAccount}         actor
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {TransactionParameters} parameters
+   * @param   {Array<CommandOption>}  argv
+   * @return  {Promise<CommandPlan>}
+   **/
+  public async explain(
+    actor: PublicAccount,
+    tokenId: TokenIdentifier,
+    command: string,
+    parameters: TransactionParameters,
+    argv: CommandOption[],
+  ): Promise<CommandPlan> {
+    // read state from REST API
+    await this.synchronize(this.getScopes(command))
+
+    // instanciate command and context
+    const context = this.getContext(actor, parameters, argv)
+    const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
+
+    // populate async data
+    this.populateCommand(cmdFn, argv)
+
+    // explain token command
+    return cmdFn.explain(actor, argv)
+  }
+
+  /**
+   * Compute the balances of token holder partitions before and after a
+   * split for Security Token with identifier `tokenId`. The `command`
+   * must be one of `StockSplit` or `ReverseSplit`.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {Array<CommandOption>}  argv
+   * @return  {Promise<SplitReport>}
+   **/
+  public async getSplitReport(
+    tokenId: TokenIdentifier,
+    command: string,
+    argv: CommandOption[],
+  ): Promise<SplitReport> {
+    // read state from REST API
+    await this.synchronize(this.getScopes(command))
+
+    // instanciate command and context
+    const context = this.getContext(this.target, new TransactionParameters(), argv)
+    const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
+
+    if (!(cmdFn instanceof StockSplit)) {
+      throw new FailureInvalidCommand('Token command ' + command + ' is not a split.')
+    }
+
+    // populate async data
+    this.populateCommand(cmdFn, argv)
+
+    // compute balances
+    return cmdFn.getReport()
+  }
+
+  /**
+   * Estimate the fees for `command` with Security Token `tokenId`. The
+   * fee multiplier can be read from network using `FeeService` and
+   * defaults to a local stand-in value. If `writeBack` is set, the
+   * estimated fee is written to `parameters.maxFee`.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {PublicAccount}         actor
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {TransactionParameters} parameters
+   * @param   {Array<CommandOption>}  argv
+   * @param   {number|undefined}      feeMultiplier (Optional)
+   * @param   {boolean}               writeBack     (Optional)
+   * @return  {Promise<FeeEstimate>}
+   **/
+  public async estimateFee(
+    actor: PublicAccount,
+    tokenId: TokenIdentifier,
+    command: string,
+    parameters: TransactionParameters,
+    argv: CommandOption[],
+    feeMultiplier?: number,
+    writeBack: boolean = false,
+  ): Promise<FeeEstimate> {
+    // read state from REST API
+    await this.synchronize(this.getScopes(command))
+
+    // instanciate command and context
+    const context = this.getContext(actor, parameters, argv)
+    const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
+
+    // populate async data
+    this.populateCommand(cmdFn, argv)
+
+    // estimate fees of token command
+    const service = new FeeService(context)
+    const estimate = service.estimate(cmdFn, actor, argv, feeMultiplier)
+
+    if (writeBack) {
+      parameters.maxFee = estimate.maxFee
+      parameters.maxFeeInt = estimate.maxFee.compact()
+    }
+
+    return estimate
+  }
+
+  /**
+   * Execute and sign `command` for Security Token with identifier `tokenId`.
+   * The contract is signed with every key of the required signer set that
+   * can be derived from the mnemonic (or is listed in `cosigners`). Missing
+   * external cosignatures are reported in the result.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {PublicAccount}         actor
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {TransactionParameters} parameters
+   * @param   {Array<CommandOption>}  argv
+   * @param   {Array<Account>}        cosigners (Optional) Additional signing keys.
+   * @return  {Promise<SigningResult>}
+   **/
+  public async sign(
+    actor: PublicAccount,
+    tokenId: TokenIdentifier,
+    command: string,
+    parameters: TransactionParameters,
+    argv: CommandOption[],
+    cosigners: Account[] = [],
+  ): Promise<SigningResult> {
+    // read state from REST API
+    await this.synchronize(this.getScopes(command))
+
+    // instanciate command and context
+    const context = this.getContext(actor, parameters, argv)
+    const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
+
+    // populate async data
+    this.populateCommand(cmdFn, argv)
+    cmdFn.keyring = cmdFn.keyring.concat(cosigners)
+
+    // execute token command
+    this.result = cmdFn.execute(actor, argv)
+    const contract = TransactionMapping.createFromPayload(this.result.data) as AggregateTransaction
+
+    // sign with all available keys
+    const service = new SignerService(context)
+    return service.sign(
+      contract,
+      cmdFn.getRequiredSigners(),
+      cmdFn.keyring,
+      actor,
+    )
+  }
+
+  /**
+   * Execute, sign and announce `command` for Security Token with identifier
+   * `tokenId`. Aggregate bonded contracts are preceded by a hash lock that is
+   * signed by the aggregate signer. Progress events are passed to `onProgress`.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {PublicAccount}         actor
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {TransactionParameters} parameters
+   * @param   {Array<CommandOption>}  argv
+   * @param   {Announcer}             announcer   (Optional) Defaults to announcing to the network.
+   * @param   {Function}              onProgress  (Optional) Progress event listener.
+   * @param   {Array<Account>}        cosigners   (Optional) Additional signing keys.
+   * @return  {Promise<AnnounceEvent[]>}
+   * @throws  {FailureOperationForbidden} On missing signing key for the hash lock.
+   **/
+  public async announce(
+    actor: PublicAccount,
+    tokenId: TokenIdentifier,
+    command: string,
+    parameters: TransactionParameters,
+    argv: CommandOption[],
+    announcer?: Announcer,
+    onProgress?: (event: AnnounceEvent) => void,
+    cosigners: Account[] = [],
+  ): Promise<AnnounceEvent[]> {
+    // execute and sign token command
+    const signing = await this.sign(actor, tokenId, command, parameters, argv, cosigners)
+    const signedTransaction = signing.signedTransaction
+
+    // the aggregate signer also signs the hash lock
+    const signer = this.getKeyring(argv).concat(cosigners).find(
+      k => k.publicKey === signedTransaction.signerPublicKey
+    )
+
+    if (undefined === signer) {
+      throw new FailureOperationForbidden('No key available to sign the hash lock.')
+    }
+
+    // announce contract
+    const context = this.getContext(actor, parameters, argv)
+    const service = new AnnounceService(context)
+    return service.announce(
+      signedTransaction,
+      signer,
+      announcer || new NetworkAnnouncer(context),
+      onProgress,
+    )
+  }
+
   /**
    * Execute `command` for Security Token with identifier `tokenId`. Arguments
    * the command execution can be passed in `argv`.
@@ -591,7 +1444,7 @@ export class TokenStandard extends Accountable implements Standard {
     argv: CommandOption[],
   ): Promise<TransactionURI> {
     // read state from REST API
-    await this.synchronize()
+    await this.synchronize(this.getScopes(command))
 
     try {
       // instanciate command and context
@@ -599,11 +1452,7 @@ export class TokenStandard extends Accountable implements Standard {
       const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
 
       // populate async data
-      cmdFn.mosaicInfo = this.mosaicInfo
-      cmdFn.operators = this.operators
-      cmdFn.partitions = this.partitions
-      cmdFn.metadata = this.metadata
-      cmdFn.restrictions = this.restrictions
+      this.populateCommand(cmdFn, argv)
 
       // execute token command
       return cmdFn.execute(actor, argv)
@@ -614,6 +1463,41 @@ export class TokenStandard extends Accountable implements Standard {
     }
   }
 
+  /**
+   * Execute `command` for Security Token with identifier `tokenId` and split
+   * its transactions into multiple contracts that respect the aggregate limits
+   * of the network (e.g. `BatchTransferOwnership`). Contracts are ordered.
+   *
+   * This method MUST call the `synchronize()` method.
+   *
+   * @param   {PublicAccount}         actor
+   * @param   {TokenIdentifier}       tokenId
+   * @param   {string}                command
+   * @param   {TransactionParameters} parameters
+   * @param   {Array<CommandOption>}  argv
+   * @return  {Promise<ContractChunk[]>}
+   **/
+  public async executeChunks(
+    actor: PublicAccount,
+    tokenId: TokenIdentifier,
+    command: string,
+    parameters: TransactionParameters,
+    argv: CommandOption[],
+  ): Promise<ContractChunk[]> {
+    // read state from REST API
+    await this.synchronize(this.getScopes(command))
+
+    // instanciate command and context
+    const context = this.getContext(actor, parameters, argv)
+    const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
+
+    // populate async data
+    this.populateCommand(cmdFn, argv)
+
+    // execute token command in chunks
+    return cmdFn.executeChunks(actor, argv)
+  }
+
   /**
    * Execute `command` for Security Token with identifier `tokenId`. Arguments
    * the command execution can be passed in `argv`.
@@ -641,11 +1525,7 @@ export class TokenStandard extends Accountable implements Standard {
       const cmdFn = this.getCommand(tokenId, command, context) as AbstractCommand
 
       // populate async data
-      cmdFn.mosaicInfo = this.mosaicInfo
-      cmdFn.operators = this.operators
-      cmdFn.partitions = this.partitions
-      cmdFn.metadata = this.metadata
-      cmdFn.restrictions = this.restrictions
+      this.populateCommand(cmdFn, argv)
 
       // execute token command
       return cmdFn.execute(actor, argv)
@@ -679,6 +1559,83 @@ export class TokenStandard extends Accountable implements Standard {
     )
   }
 
+  /**
+   * Populates the token command `cmdFn` with the synchronized token
+   * state and the accounts that can be derived for this token.
+   *
+   * @param   {AbstractCommand}   cmdFn
+   * @param   {CommandOption[]}   argv
+   * @return  {AbstractCommand}
+   */
+  protected populateCommand(
+    cmdFn: AbstractCommand,
+    argv?: CommandOption[],
+  ): AbstractCommand {
+    cmdFn.mosaicInfo = this.mosaicInfo
+    cmdFn.operators = this.operators
+    cmdFn.multisigInfo = this.multisigInfo
+    cmdFn.quorumPolicy = this.quorumPolicy
+    cmdFn.balances = this.balances
+    cmdFn.height = this.height
+    cmdFn.swapLocks = this.swapLocks
+    cmdFn.roles = this.roles
+    cmdFn.timestamp = this.timestamp
+    cmdFn.vestingSchedules = this.vestingSchedules
+    cmdFn.partitions = this.partitions
+    cmdFn.metadata = this.metadata
+    cmdFn.restrictions = this.restrictions
+    cmdFn.keyring = this.getKeyring(argv)
+    cmdFn.accountable = this
+    return cmdFn
+  }
+
+  /**
+   * Gets the accounts that can be derived for this token: target,
+   * authority, operators, known partitions and the partition that
+   * is described in `argv` (`holder`, `name` and `nonce`), if any.
+   * Without `holder`, the owner of the known `partition` is used.
+   *
+   * @param   {CommandOption[]}   argv
+   * @return  {Account[]}
+   */
+  protected getKeyring(
+    argv?: CommandOption[],
+  ): Account[] {
+    const keyring: Account[] = [
+      this.getTarget(),
+      this.getAuthority(),
+    ]
+
+    // operators are derived at incremented REMOTE levels
+    for (let at = 1, m = this.operators.length; at <= m; at ++) {
+      keyring.push(this.getOperator(at))
+    }
+
+    // partitions are derived around owner, name and nonce
+    this.partitions.forEach(p => keyring.push(this.getPartition(p.owner, p.name, p.nonce)))
+
+    // new partitions are described in arguments
+    const holder = argv && argv.find(o => o.name === 'holder')
+    const partition = argv && argv.find(o => o.name === 'partition')
+    const name = argv && argv.find(o => o.name === 'name')
+    const nonce = argv && argv.find(o => o.name === 'nonce')
+
+    // split partitions are owned by the owner of the known partition
+    const known = undefined === partition ? undefined : this.partitions.find(
+      p => p.account.address.equals((partition.value as PublicAccount).address)
+    )
+    const owner = undefined !== holder ? holder.value as PublicAccount : undefined !== known ? known.owner : undefined
+    if (undefined !== owner && undefined !== name) {
+      keyring.push(this.getPartition(
+        owner,
+        name.value as string,
+        undefined !== nonce ? nonce.value as number : 0,
+      ))
+    }
+
+    return keyring
+  }
+
   /**
    * Gets a command instance around `context` and `tokenId`.
    *
@@ -699,6 +1656,18 @@ export class TokenStandard extends Accountable implements Standard {
 
     return TokenCommands[command](context, tokenId, this.keyProvider)
   }
+
+  /**
+   * Gets the optional token state that `command` reads in `synchronize()`.
+   *
+   * @param {string}  command
+   * @return {StateScope[]}
+   */
+  protected getScopes(
+    command: string,
+  ): StateScope[] {
+    return TokenScopes[command] || []
+  }
   /// end-region protected methods
 }
 
@@ -0,0 +1,59 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { SignedTransaction } from 'symbol-sdk'
+
+// internal dependencies
+import { Announcer } from '../contracts/Announcer'
+
+/**
+ * @class InMemoryAnnouncer
+ * @package NIP13/announcers
+ * @since v0.5.3
+ * @description Class that describes a local stand-in announcer that records
+ *              transactions in memory. Transactions are confirmed instantly.
+ */
+export class InMemoryAnnouncer implements Announcer {
+  /**
+   * @description Announced transactions (in order of announcement).
+   */
+  public announced: SignedTransaction[] = []
+
+  /**
+   * Record a signed transaction.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}
+   */
+  public async announce(
+    signedTransaction: SignedTransaction,
+  ): Promise<string> {
+    this.announced.push(signedTransaction)
+    return signedTransaction.hash
+  }
+
+  /**
+   * Record a signed aggregate bonded transaction.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}
+   */
+  public async announceAggregateBonded(
+    signedTransaction: SignedTransaction,
+  ): Promise<string> {
+    this.announced.push(signedTransaction)
+    return signedTransaction.hash
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  SignedTransaction,
+  TransactionService,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Service } from '../../../../index'
+import { Announcer } from '../contracts/Announcer'
+
+/**
+ * @class NetworkAnnouncer
+ * @package NIP13/announcers
+ * @since v0.5.3
+ * @description Class that describes an announcer that broadcasts
+ *              transactions to the network (REST and websocket).
+ */
+export class NetworkAnnouncer extends Service implements Announcer {
+  /**
+   * Announce a signed transaction and wait for its confirmation.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}
+   */
+  public async announce(
+    signedTransaction: SignedTransaction,
+  ): Promise<string> {
+    // initialize REST and websocket
+    const service = this.getTransactionService()
+    const listener = this.context.network.factoryHttp.createListener()
+    await listener.open()
+
+    try {
+      await service.announce(signedTransaction, listener).toPromise()
+      return signedTransaction.hash
+    }
+    finally {
+      listener.close()
+    }
+  }
+
+  /**
+   * Announce a signed aggregate bonded transaction and wait
+   * for it to be partially added.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}
+   */
+  public async announceAggregateBonded(
+    signedTransaction: SignedTransaction,
+  ): Promise<string> {
+    // initialize REST and websocket
+    const service = this.getTransactionService()
+    const listener = this.context.network.factoryHttp.createListener()
+    await listener.open()
+
+    try {
+      await service.announceAggregateBonded(signedTransaction, listener).toPromise()
+      return signedTransaction.hash
+    }
+    finally {
+      listener.close()
+    }
+  }
+
+  /**
+   * Gets a transaction service around the network repositories.
+   *
+   * @return {TransactionService}
+   */
+  protected getTransactionService(): TransactionService {
+    return new TransactionService(
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+    )
+  }
+}
@@ -15,11 +15,26 @@
  */
 import { TransactionURI } from 'symbol-uri-scheme'
 import {
+  Account,
+  AccountMetadataTransaction,
   AggregateTransaction,
+  Convert,
+  EmptyMessage,
+  InnerTransaction,
+  KeyGenerator,
+  Mosaic,
+  MosaicAddressRestrictionTransaction,
+  MosaicId,
   MosaicInfo,
+  MosaicMetadataTransaction,
   MultisigAccountInfo,
+  MultisigAccountModificationTransaction,
+  PlainMessage,
   PublicAccount,
   Transaction,
+  TransactionType,
+  TransferTransaction,
+  UInt64,
 } from 'symbol-sdk'
 import { Wallet } from 'symbol-hd-wallets'
 
@@ -29,15 +44,26 @@ import {
   BaseCommand,
   CommandOption,
   Context,
+  ExecutionMode,
+  FailureCommandValidation,
   TokenIdentifier,
   TokenPartition,
 } from '../../../../index'
+import { Accountable } from '../contracts/Accountable'
 import { MultisigService } from '../services/MultisigService'
 import { PartitionService } from '../services/PartitionService'
 import { FailureEmptyContract } from '../errors/FailureEmptyContract'
 import { TransactionParameters } from '../../../models/TransactionParameters'
 import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
 import { SecuritiesRestrictions } from '../models/SecuritiesRestrictions'
+import { CommandPlan } from '../models/CommandPlan'
+import { CommandPlanStep, SignerRole } from '../models/CommandPlanStep'
+import { ContractChunk } from '../models/ContractChunk'
+import { FailureAggregateLimit } from '../errors/FailureAggregateLimit'
+import { QuorumPolicy } from '../models/QuorumPolicy'
+import { SwapLock } from '../models/SwapLock'
+import { RoleAssignment } from '../models/RoleAssignment'
+import { VestingSchedule } from '../models/VestingSchedule'
 
 /**
  * @class NIP13.AbstractCommand
@@ -56,6 +82,46 @@ export abstract class AbstractCommand extends BaseCommand {
    */
   public operators: PublicAccount[] = []
 
+  /**
+   * @description Multisig account information of the target account (read from network).
+   */
+  public multisigInfo: MultisigAccountInfo | undefined
+
+  /**
+   * @description Operators quorum policy of said token (read from network).
+   */
+  public quorumPolicy: QuorumPolicy | undefined
+
+  /**
+   * @description Mosaic balances of the target account and token holders (read from network).
+   */
+  public balances: {[address: string]: Mosaic[]} = {}
+
+  /**
+   * @description Current chain height (read from network).
+   */
+  public height: UInt64 = UInt64.fromUint(0)
+
+  /**
+   * @description Chain time at the current chain height (read from network).
+   */
+  public timestamp: number = 0
+
+  /**
+   * @description Swap locks of said token (read from network).
+   */
+  public swapLocks: SwapLock[] = []
+
+  /**
+   * @description User roles of said token (read from network).
+   */
+  public roles: RoleAssignment[] = []
+
+  /**
+   * @description Vesting schedules of token locker accounts (read from network).
+   */
+  public vestingSchedules: {[address: string]: VestingSchedule} = {}
+
   /**
    * @description Mosaic information (read from network).
    */
@@ -76,6 +142,16 @@ export abstract class AbstractCommand extends BaseCommand {
    */
   public restrictions: SecuritiesRestrictions | undefined
 
+  /**
+   * @description Accounts that can be derived by the key provider.
+   */
+  public keyring: Account[] = []
+
+  /**
+   * @description Key derivation of said token (derives new partition accounts).
+   */
+  public accountable: Accountable | undefined
+
   /**
    * @description List of **required** arguments for this token command.
    */
@@ -149,7 +225,12 @@ export abstract class AbstractCommand extends BaseCommand {
       })
 
     // allows only operators to transfer ownership tokens
-    return new AllowanceResult(isOperator)
+    if (!isOperator) {
+      return new AllowanceResult(false, 'Only operators can execute ' + this.name + '.')
+    }
+
+    // validate command arguments
+    return this.validate()
   }
 
   /**
@@ -160,6 +241,10 @@ export abstract class AbstractCommand extends BaseCommand {
     actor: PublicAccount,
     argv?: CommandOption[]
   ): TransactionURI {
+    // validate command arguments (throws typed errors)
+    super.assertHasMandatoryArguments(argv, this.arguments)
+    this.assertValidArguments()
+
     // verify authorization to execute
     super.assertExecutionAllowance(actor, argv)
 
@@ -170,23 +255,550 @@ export abstract class AbstractCommand extends BaseCommand {
     return new TransactionURI(contract.serialize())
   }
 
+  /**
+   * @description Method that executes the token command and splits its
+   *              transactions into multiple contracts that respect the
+   *              aggregate limits of the network. Contracts are ordered.
+   * @param   {PublicAccount}         actor
+   * @param   {Array<CommandOption>}  argv
+   * @return  {ContractChunk[]}
+   **/
+  public executeChunks(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): ContractChunk[] {
+    // validate command arguments (throws typed errors)
+    super.assertHasMandatoryArguments(argv, this.arguments)
+    this.assertValidArguments()
+
+    // verify authorization to execute
+    super.assertExecutionAllowance(actor, argv)
+
+    // create one blockchain contract per chunk
+    const chunks = this.chunks
+    return chunks.map((transactions, i) => new ContractChunk(
+      i,
+      chunks.length,
+      new TransactionURI(this.wrap(transactions).serialize()),
+    ))
+  }
+
+  /**
+   * @description Method that explains the token command execution without
+   *              creating a contract (dry-run). The same validation and
+   *              authorization rules as in `execute()` apply.
+   * @param   {PublicAccount}         actor
+   * @param   {Array<CommandOption>}  argv
+   * @return  {CommandPlan}
+   **/
+  public explain(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): CommandPlan {
+    // validate command arguments (throws typed errors)
+    super.assertHasMandatoryArguments(argv, this.arguments)
+    this.assertValidArguments()
+
+    // verify authorization to execute
+    super.assertExecutionAllowance(actor, argv)
+
+    // describe each inner transaction
+    const steps = this.transactions.map((transaction, i) => {
+      const signer = transaction.signer as PublicAccount
+      const role = this.getSignerRole(signer)
+      const type = TransactionType[transaction.type]
+
+      if (transaction instanceof TransferTransaction) {
+        return new CommandPlanStep(
+          i, type, signer, role,
+          transaction.recipientAddress,
+          transaction.mosaics,
+          transaction.message.payload,
+        )
+      }
+      else if (transaction instanceof MosaicAddressRestrictionTransaction) {
+        return new CommandPlanStep(i, type, signer, role, transaction.targetAddress)
+      }
+      else if (transaction instanceof AccountMetadataTransaction
+            || transaction instanceof MosaicMetadataTransaction) {
+        const targetAccount = PublicAccount.createFromPublicKey(
+          transaction.targetPublicKey,
+          this.context.network.networkType,
+        )
+
+        return new CommandPlanStep(i, type, signer, role, targetAccount.address, [], transaction.value)
+      }
+
+      return new CommandPlanStep(i, type, signer, role)
+    })
+
+    return new CommandPlan(this.name, this.descriptor, steps)
+  }
+
+  /**
+   * Gets the set of accounts that must sign the command's contract. Inner
+   * transactions issued by multisig accounts (target or partitions) require
+   * signatures of operators, new cosignatories must opt-in.
+   *
+   * @param   {Transaction[]}   transactions  (Optional) Defaults to the command's transactions.
+   * @return  {PublicAccount[]}
+   */
+  public getRequiredSigners(
+    transactions: Transaction[] = this.transactions,
+  ): PublicAccount[] {
+    const signers: PublicAccount[] = []
+    const addSigners = (accounts: PublicAccount[]) => accounts.forEach(a => {
+      if (!signers.some(s => s.publicKey === a.publicKey)) {
+        signers.push(a)
+      }
+    })
+
+    transactions.forEach(transaction => {
+      const signer = transaction.signer as PublicAccount
+      const isMultisig = this.operators.length > 0 && (signer.address.equals(this.target.address)
+        || this.partitions.some(p => p.account.address.equals(signer.address)))
+
+      // multisig accounts are signed by operators
+      addSigners(isMultisig ? this.operators : [signer])
+
+      // new cosignatories must opt-in
+      if (transaction instanceof MultisigAccountModificationTransaction) {
+        addSigners(transaction.publicKeyAdditions)
+      }
+    })
+
+    return signers
+  }
+
+  /**
+   * Gets the synchronized balance of `account` for mosaic `mosaicId`.
+   *
+   * @param   {PublicAccount} account
+   * @param   {MosaicId}      mosaicId
+   * @return  {number}
+   */
+  protected getBalance(
+    account: PublicAccount,
+    mosaicId: MosaicId,
+  ): number {
+    const mosaic = (this.balances[account.address.plain()] || []).find(
+      m => m.id.toHex() === mosaicId.toHex()
+    )
+
+    return undefined !== mosaic ? mosaic.amount.compact() : 0
+  }
+
+  /**
+   * Gets the `minApproval` and `minRemoval` deltas that apply `policy` to
+   * `count` operators, starting from the quorum of the target account. The
+   * current quorum is 0-of-0 when the target is not a multisig account.
+   *
+   * @param   {QuorumPolicy}  policy
+   * @param   {number}        count
+   * @return  {{minApproval: number, minRemoval: number}}
+   */
+  protected getQuorumDeltas(
+    policy: QuorumPolicy,
+    count: number,
+  ): { minApproval: number, minRemoval: number } {
+    const current = this.multisigInfo
+    return {
+      minApproval: policy.getMinApproval(count) - (undefined !== current ? current.minApproval : 0),
+      minRemoval: policy.getMinRemoval(count) - (undefined !== current ? current.minRemoval : 0),
+    }
+  }
+
+  /**
+   * Gets the `minApproval` and `minRemoval` deltas of token holder partitions
+   * that apply `policy` to `count` operators, starting from the current
+   * quorum policy applied to the current number of operators.
+   *
+   * @param   {QuorumPolicy}  policy
+   * @param   {number}        count
+   * @return  {{minApproval: number, minRemoval: number}}
+   */
+  protected getPartitionQuorumDeltas(
+    policy: QuorumPolicy,
+    count: number,
+  ): { minApproval: number, minRemoval: number } {
+    const current = this.getQuorumPolicy().getPartitionQuorum(this.operators.length)
+    const next = policy.getPartitionQuorum(count)
+    return {
+      minApproval: next.minApproval - current.minApproval,
+      minRemoval: next.minRemoval - current.minRemoval,
+    }
+  }
+
+  /**
+   * Gets the current operators quorum policy of said token. The policy is
+   * read from the `Quorum_Policy` metadata of the target account, tokens
+   * without said metadata use the rules of the current target quorum.
+   *
+   * @return  {QuorumPolicy}
+   */
+  protected getQuorumPolicy(): QuorumPolicy {
+    if (undefined !== this.quorumPolicy) {
+      return this.quorumPolicy
+    }
+    else if (undefined === this.multisigInfo) {
+      return QuorumPolicy.DEFAULT
+    }
+
+    // derive relative rules from the current quorum when possible
+    const count = this.operators.length
+    const { minApproval, minRemoval } = this.multisigInfo
+    return new QuorumPolicy(
+      minApproval === count ? 'all' : minApproval,
+      minRemoval === count ? 'all' : (minRemoval === count - 1 ? 'all-but-one' : minRemoval),
+    )
+  }
+
+  /**
+   * Builds the transaction that attaches `policy` to the `Quorum_Policy`
+   * metadata of the target account, if it differs from the current value.
+   *
+   * @param   {QuorumPolicy}  policy
+   * @return  {InnerTransaction|undefined}
+   */
+  protected createQuorumPolicyMetadata(
+    policy: QuorumPolicy,
+  ): InnerTransaction | undefined {
+    // :note: metadata values are updated with XOR of the previous and new values
+    const previous = Convert.utf8ToUint8(undefined !== this.quorumPolicy ? this.quorumPolicy.toMetadata() : '')
+    const value = Convert.utf8ToUint8(policy.toMetadata())
+    if (Convert.uint8ToHex(previous) === Convert.uint8ToHex(value)) {
+      return undefined
+    }
+
+    return AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.publicKey,
+      KeyGenerator.generateUInt64Key('Quorum_Policy'),
+      value.length - previous.length,
+      Convert.decodeHex(Convert.xor(previous, value)),
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    )
+  }
+
+  /**
+   * Gets the role of a transaction `signer` for this command.
+   *
+   * @param   {PublicAccount} signer
+   * @return  {SignerRole}
+   */
+  protected getSignerRole(
+    signer: PublicAccount,
+  ): SignerRole {
+    const isAccount = (account: PublicAccount | null) => null !== account
+      && account.address.equals(signer.address)
+
+    if (isAccount(this.target)) {
+      return 'target'
+    }
+    else if (isAccount(this.context.getInput('partition', null))
+          || this.partitions.some(p => isAccount(p.account))) {
+      return 'partition'
+    }
+    else if (isAccount(this.context.getInput('holder', null))
+          || this.partitions.some(p => isAccount(p.owner))) {
+      return 'holder'
+    }
+    else if (isAccount(this.context.getInput('locker', null))) {
+      return 'locker'
+    }
+    else if (this.operators.some(o => isAccount(o))) {
+      return 'operator'
+    }
+
+    return 'account'
+  }
+
+  /**
+   * Helper method for moving `amount` shares between the token holder
+   * partitions `sender` and `recipient`. Shares are always moved
+   * through the target account (non-transferable).
+   *
+   * @param {TokenPartition}  sender
+   * @param {TokenPartition}  recipient
+   * @param {number}          amount
+   * @param {string}          descriptor  The token command descriptor used as a marker.
+   */
+  protected createBalanceMove(
+    sender: TokenPartition,
+    recipient: TokenPartition,
+    amount: number,
+    descriptor: string,
+  ): { transactions: InnerTransaction[], signers: PublicAccount[] } {
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      sender.account.address,
+      [],
+      PlainMessage.create(descriptor + ':' + recipient.name), // use recipient partition name
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: First send back the amount to the target account
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address, // back to target account (non-transferrable)
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(amount),
+        ),
+      ],
+      EmptyMessage, // This transaction does not need a marker
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **sender** partition account
+    signers.push(sender.account)
+
+    // Transaction 03: Add ownership transfer transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      recipient.account.address, // new recipient is the recipient partition account
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(amount),
+        ),
+      ],
+      PlainMessage.create('NIP13(v' + this.context.revision + '):transfer:' + this.identifier.id + ':' + recipient.name),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 03 is issued by **target** account
+    signers.push(this.target)
+
+    return {
+      transactions,
+      signers,
+    }
+  }
+
+  /**
+   * Validates the command arguments by building the command's
+   * transactions. Validation failures are reported in the
+   * allowance result's `message` and `code`.
+   *
+   * @return {AllowanceResult}
+   */
+  protected validate(): AllowanceResult {
+    try {
+      this.assertValidArguments()
+    }
+    catch (f) {
+      if (f instanceof FailureCommandValidation) {
+        return new AllowanceResult(false, f.message, f.code)
+      }
+
+      throw f
+    }
+
+    return new AllowanceResult(true)
+  }
+
+  /**
+   * Asserts the validity of the command arguments.
+   *
+   * @throws {FailureCommandValidation} On invalid command argument(s).
+   */
+  protected assertValidArguments(): boolean {
+    // validation errors are thrown by the transactions builder
+    return undefined !== this.transactions
+  }
+
+  /**
+   * @description Build a command's transactions split in chunks. Each chunk
+   *              results in one contract. By default, one chunk is created.
+   * @return {Transaction[][]}
+   **/
+  protected get chunks(): Transaction[][] {
+    return [this.transactions]
+  }
+
+  /**
+   * Build the chunks of a command that consists of one execution proof
+   * marker followed by transaction `groups`. Each chunk starts with its
+   * own marker and markers of multiple chunks contain ordering info.
+   *
+   * @param   {string}          descriptor
+   * @param   {Transaction[][]} groups
+   * @return  {Transaction[][]}
+   */
+  protected getMarkedChunks(
+    descriptor: string,
+    groups: Transaction[][],
+  ): Transaction[][] {
+    const chunks = this.packChunks(this.createMarker(descriptor), groups)
+
+    // single chunks use the unchanged marker
+    if (chunks.length <= 1) {
+      return [[this.createMarker(descriptor)].concat(...groups)]
+    }
+
+    // markers of multiple chunks contain ordering info (e.g. ":1/3")
+    return chunks.map((chunk, i) => [
+      this.createMarker(descriptor + ':' + (i + 1) + '/' + chunks.length),
+    ].concat(chunk))
+  }
+
+  /**
+   * @description Builds an execution proof transaction issued by the target account.
+   * @param   {string}  message
+   * @return  {Transaction}
+   **/
+  protected createMarker(
+    message: string,
+  ): Transaction {
+    // marker is issued by **target** account
+    return TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [],
+      PlainMessage.create(message),
+      this.context.network.networkType,
+      undefined,
+    ).toAggregate(this.target)
+  }
+
+  /**
+   * Split transaction `groups` into chunks that respect the aggregate
+   * limits of the network. Groups are never split and each chunk is
+   * reserved space for one `marker` transaction (not included).
+   *
+   * @param   {Transaction}     marker
+   * @param   {Transaction[][]} groups
+   * @return  {Transaction[][]}
+   */
+  protected packChunks(
+    marker: Transaction,
+    groups: Transaction[][],
+  ): Transaction[][] {
+    const maxTransactions = this.context.network.maxTransactionsPerAggregate
+    const maxCosignatures = this.context.network.maxCosignaturesPerAggregate
+
+    const chunks: Transaction[][] = []
+    let current: Transaction[] = []
+    groups.forEach(group => {
+      const candidate = [marker].concat(current, group)
+      const isFull = candidate.length > maxTransactions
+        || this.getRequiredSigners(candidate).length > maxCosignatures
+
+      // start next chunk when limits are reached
+      if (current.length && isFull) {
+        chunks.push(current)
+        current = []
+      }
+
+      current = current.concat(group)
+    })
+
+    if (current.length) {
+      chunks.push(current)
+    }
+
+    return chunks
+  }
+
   /**
    * @description Wrap the command's transactions inside an aggregate transaction.
    * @see {BaseCommand.wrap}
    * @return {AggregateTransaction[]} Aggregate bonded transaction
    **/
   protected prepare(): AggregateTransaction | Transaction {
-    if (!this.transactions.length) {
+    return this.wrap(this.transactions)
+  }
+
+  /**
+   * Wrap `transactions` inside an aggregate transaction. The aggregate is
+   * complete when requested or when all signers are derivable (auto).
+   *
+   * @param   {Transaction[]}   transactions
+   * @return  {AggregateTransaction}
+   * @throws  {FailureEmptyContract}  On empty contract.
+   * @throws  {FailureAggregateLimit} On contract exceeding aggregate limits.
+   */
+  protected wrap(
+    transactions: Transaction[],
+  ): AggregateTransaction {
+    if (!transactions.length) {
       throw new FailureEmptyContract('No transactions result of this contract execution.')
     }
 
+    // validate aggregate limits
+    this.assertAggregateLimits(transactions)
+
+    // create aggregate complete when requested or when all signers are derivable
+    const mode = this.context.parameters.executionMode
+    if (ExecutionMode.Complete === mode || (ExecutionMode.Auto === mode && this.isDerivable(transactions))) {
+      return AggregateTransaction.createComplete(
+        this.context.parameters.deadline,
+        transactions,
+        this.context.network.networkType,
+        [],
+        this.context.parameters.maxFee,
+      )
+    }
+
     // create aggregate bonded
     return AggregateTransaction.createBonded(
       this.context.parameters.deadline,
-      this.transactions,
+      transactions,
       this.context.network.networkType,
       [],
       this.context.parameters.maxFee,
     )
   }
+
+  /**
+   * Asserts that `transactions` respect the aggregate limits of the network.
+   *
+   * @param   {Transaction[]}   transactions
+   * @throws  {FailureAggregateLimit} On contract exceeding aggregate limits.
+   */
+  protected assertAggregateLimits(
+    transactions: Transaction[],
+  ): boolean {
+    if (transactions.length > this.context.network.maxTransactionsPerAggregate) {
+      throw new FailureAggregateLimit(
+        'Contract exceeds the maximum of ' + this.context.network.maxTransactionsPerAggregate + ' transactions.'
+      )
+    }
+
+    if (this.getRequiredSigners(transactions).length > this.context.network.maxCosignaturesPerAggregate) {
+      throw new FailureAggregateLimit(
+        'Contract exceeds the maximum of ' + this.context.network.maxCosignaturesPerAggregate + ' cosignatures.'
+      )
+    }
+
+    return true
+  }
+
+  /**
+   * Verifies whether all required signers are part of the keyring.
+   *
+   * @param   {Transaction[]}   transactions  (Optional) Defaults to the command's transactions.
+   * @return  {boolean}
+   */
+  protected isDerivable(
+    transactions: Transaction[] = this.transactions,
+  ): boolean {
+    return this.getRequiredSigners(transactions).every(
+      s => this.keyring.some(k => k.publicKey === s.publicKey)
+    )
+  }
 }
@@ -27,6 +27,9 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureInvalidIPFSHash } from '../errors/FailureInvalidIPFSHash'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
 
 /**
  * @class NIP13.AttachDocument
@@ -79,13 +82,11 @@ export class AttachDocument extends AbstractCommand {
     const recipient = this.context.getInput('recipient', new PublicAccount())
 
     if (!filenode.length || !filename.length) {
-      // Error: Invalid arguments
-      return []
+      throw new FailureInvalidArgument('Arguments "filenode" and "filename" must not be empty.')
     }
 
     if (!filenode.startsWith('Qm')) {
-      // Error: Invalid IPFS file hash
-      return []
+      throw new FailureInvalidIPFSHash('Invalid IPFS file hash "' + filenode + '".')
     }
 
     if (!recipient.address.equals(this.target.address)) {
@@ -95,8 +96,7 @@ export class AttachDocument extends AbstractCommand {
 
       // AttachDocument is only possible for target account or existing partitions
       if (undefined === the_partition) {
-        // Error: partition does not exist
-        return []
+        throw new FailureUnknownPartition('Partition "' + recipient.address.plain() + '" does not exist.')
       }
     }
 
@@ -14,15 +14,13 @@
  * limitations under the License.
  */
 import {
-  InnerTransaction,
   Transaction,
   PublicAccount,
-  TransferTransaction,
-  PlainMessage,
 } from 'symbol-sdk'
 
 // internal dependencies
 import { TransferOwnership } from './TransferOwnership'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
 
 /**
  * @class NIP13.BatchTransferOwnership
@@ -73,43 +71,54 @@ export class BatchTransferOwnership extends TransferOwnership {
    * @return {Transaction[]} Aggregate bonded transaction
    **/
   protected get transactions(): Transaction[] {
-    // read external arguments
-    const recipients = this.context.getInput('recipients', [])
+    // Transaction 01: Add execution proof transaction
+    const marker = this.createMarker(this.batchDescriptor)
 
-    // prepare output
-    const transactions: InnerTransaction[] = []
-    const signers: PublicAccount[] = []
+    // return transactions issued by assigned signer
+    return [marker].concat(...this.recipientTransactions)
+  }
 
-    // Transaction 01: Add execution proof transaction
-    transactions.push(TransferTransaction.create(
-      this.context.parameters.deadline,
-      this.target.address,
-      [],
-      PlainMessage.create(this.batchDescriptor),
-      this.context.network.networkType,
-      undefined,
-    ))
+  /**
+   * @description Builds the inner transactions of a `BatchTransferOwnership`
+   *              command split in chunks that respect aggregate limits.
+   *              Each chunk starts with its own execution proof marker.
+   * @see {AbstractCommand.getMarkedChunks}
+   * @return {Transaction[][]}
+   **/
+  protected get chunks(): Transaction[][] {
+    return this.getMarkedChunks(this.batchDescriptor, this.recipientTransactions)
+  }
+  // end-region abstract methods
+
+  /**
+   * @description Builds the inner transactions of one `TransferOwnership`
+   *              for each partition listed in `recipients`.
+   * @return {Transaction[][]}
+   **/
+  protected get recipientTransactions(): Transaction[][] {
+    // read external arguments
+    const recipients: PublicAccount[] = this.context.getInput('recipients', [])
+    const sender = this.context.getInput('sender', new PublicAccount())
+    const amount = this.context.getInput('amount', 0)
 
-    // Transaction 01 is issued by **target** account
-    signers.push(this.target)
+    // sender must hold the shares of all transfers
+    const sender_partition = this.partitions.find(p => p.account.address.equals(sender.address))
+    const balance = sender.address.equals(this.target.address)
+      ? this.getBalance(this.target, this.identifier.toMosaicId())
+      : undefined !== sender_partition ? sender_partition.amount : 0
+
+    if (recipients.length * amount > balance) {
+      throw new FailureInsufficientBalance('Sender has insufficient balance for ' + recipients.length + ' transfers.')
+    }
 
     // :warning: Each partition listed in `recipients`
     // :warning: will produce the execution of one `TransferOwnership`
-    let parentTransactions: InnerTransaction[] = []
-    for (let i = 0, m = recipients.length; i < m; i++) {
-      const the_partition: PublicAccount = recipients[i]
-
+    return recipients.map(the_partition => {
       // set `TransferOwnership` command arguments
       this.context.setInput('recipient', the_partition)
 
       // @see TransferOwnership.transactions()
-      parentTransactions = parentTransactions.concat(super.transactions)
-    }
-
-    // return transactions issued by assigned signer
-    return transactions.map(
-      (transaction, i) => transaction.toAggregate(signers[i])
-    ).concat(parentTransactions)
+      return super.transactions
+    })
   }
-  // end-region abstract methods
 }
@@ -14,11 +14,8 @@
  * limitations under the License.
  */
 import {
-  InnerTransaction,
   Transaction,
   PublicAccount,
-  TransferTransaction,
-  PlainMessage,
 } from 'symbol-sdk'
 
 // internal dependencies
@@ -75,43 +72,42 @@ export class BatchTransferOwnershipWithData extends TransferOwnershipWithData {
    * @return {Transaction[]} Aggregate bonded transaction
    **/
   protected get transactions(): Transaction[] {
-    // read external arguments
-    const recipients = this.context.getInput('recipients', [])
+    // Transaction 01: Add execution proof transaction
+    const marker = this.createMarker(this.batchDescriptor)
 
-    // prepare output
-    const transactions: InnerTransaction[] = []
-    const signers: PublicAccount[] = []
+    // return transactions issued by assigned signer
+    return [marker].concat(...this.recipientTransactions)
+  }
 
-    // Transaction 01: Add execution proof transaction
-    transactions.push(TransferTransaction.create(
-      this.context.parameters.deadline,
-      this.target.address,
-      [],
-      PlainMessage.create(this.batchDescriptor),
-      this.context.network.networkType,
-      undefined,
-    ))
+  /**
+   * @description Builds the inner transactions of a `BatchTransferOwnershipWithData`
+   *              command split in chunks that respect aggregate limits.
+   *              Each chunk starts with its own execution proof marker.
+   * @see {AbstractCommand.getMarkedChunks}
+   * @return {Transaction[][]}
+   **/
+  protected get chunks(): Transaction[][] {
+    return this.getMarkedChunks(this.batchDescriptor, this.recipientTransactions)
+  }
+  // end-region abstract methods
 
-    // Transaction 01 is issued by **target** account
-    signers.push(this.target)
+  /**
+   * @description Builds the inner transactions of one `TransferOwnershipWithData`
+   *              for each partition listed in `recipients`.
+   * @return {Transaction[][]}
+   **/
+  protected get recipientTransactions(): Transaction[][] {
+    // read external arguments
+    const recipients: PublicAccount[] = this.context.getInput('recipients', [])
 
     // :warning: Each partition listed in `recipients`
-    // :warning: will produce the execution on one `TransferOwnershipWithData`
-    let parentTransactions: InnerTransaction[] = []
-    for (let i = 0, m = recipients.length; i < m; i++) {
-      const the_partition: PublicAccount = recipients[i]
-
+    // :warning: will produce the execution of one `TransferOwnershipWithData`
+    return recipients.map(the_partition => {
       // set `TransferOwnershipWithData` command arguments
       this.context.setInput('recipient', the_partition)
 
       // @see TransferOwnershipWithData.transactions()
-      parentTransactions = parentTransactions.concat(super.transactions)
-    }
-
-    // return transactions issued by assigned signer
-    return transactions.map(
-      (transaction, i) => transaction.toAggregate(signers[i])
-    ).concat(parentTransactions)
+      return super.transactions
+    })
   }
-  // end-region abstract methods
 }
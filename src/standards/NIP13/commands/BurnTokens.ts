@@ -0,0 +1,164 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  EmptyMessage,
+  InnerTransaction,
+  Mosaic,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+
+/**
+ * @class NIP13.BurnTokens
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for decreasing the supply of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | amount | Number of shares to be burned | `1` |
+ * | partition | (Optional) Token holder partition account that redeems shares first | `new PublicAccount(...)` |
+ */
+export class BurnTokens extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'amount',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'BurnTokens'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':burn:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `BurnTokens` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const amount = this.context.getInput('amount', 0)
+    const partition = this.context.getInput<PublicAccount | null>('partition', null)
+
+    if (amount <= 0) {
+      throw new FailureInvalidArgument('Argument "amount" must be greater than 0.')
+    }
+
+    // find partition
+    const the_partition = null === partition ? undefined : this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+
+    // 'BurnTokens' can only redeem from existing partitions
+    if (null !== partition && undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    if (undefined !== the_partition && amount > the_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + the_partition.name + '" has insufficient balance.')
+    }
+
+    // without partition, shares are burned from the target account
+    if (undefined === the_partition && amount > this.getBalance(this.target, this.identifier.toMosaicId())) {
+      throw new FailureInsufficientBalance('Target account has insufficient balance.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      undefined !== the_partition ? the_partition.account.address : this.target.address,
+      [],
+      PlainMessage.create(this.descriptor),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: First redeem the amount to the target account
+    if (undefined !== the_partition) {
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        this.target.address, // back to target account (non-transferrable)
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            UInt64.fromUint(amount),
+          ),
+        ],
+        EmptyMessage, // This transaction does not need a marker
+        this.context.network.networkType,
+        undefined,
+      ))
+
+      // Transaction 02 is issued by **partition** account
+      signers.push(the_partition.account)
+    }
+
+    // Transaction 03: MosaicSupplyChangeTransaction
+    transactions.push(MosaicSupplyChangeTransaction.create(
+      this.context.parameters.deadline,
+      this.identifier.toMosaicId(),
+      MosaicSupplyChangeAction.Decrease,
+      UInt64.fromUint(amount),
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 03 is issued by **target** account (multisig)
+    signers.push(this.target)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
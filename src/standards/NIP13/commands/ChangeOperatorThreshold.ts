@@ -0,0 +1,160 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  MultisigAccountModificationTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { QuorumPolicy } from '../models/QuorumPolicy'
+
+/**
+ * @class NIP13.ChangeOperatorThreshold
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for changing the operators quorum of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | `policy` | New operators quorum policy | `new QuorumPolicy('majority', 'majority')` |
+ *
+ * The current quorum is read from the multisig account information of the target account. The
+ * policy is attached to the `Quorum_Policy` metadata of the target account and applied to partitions.
+ */
+export class ChangeOperatorThreshold extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'policy',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ChangeOperatorThreshold'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':threshold:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ChangeOperatorThreshold` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const policy = this.context.getInput('policy', QuorumPolicy.DEFAULT)
+
+    // the quorum policy is applied to the current number of operators
+    const count = this.operators.length
+    if (!policy.isValid(count)) {
+      throw new FailureInvalidArgument('Quorum policy cannot be applied to ' + count + ' operator(s).')
+    }
+
+    // the deltas are relative to the current quorum of the target account
+    const deltas = this.getQuorumDeltas(policy, count)
+    const partitionDeltas = this.getPartitionQuorumDeltas(policy, count)
+    const metadata = this.createQuorumPolicyMetadata(policy)
+    const isChange = (d: { minApproval: number, minRemoval: number }) => 0 !== d.minApproval || 0 !== d.minRemoval
+    if (!isChange(deltas) && undefined === metadata) {
+      throw new FailureInvalidArgument('Quorum policy does not change minApproval or minRemoval.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + policy.getMinApproval(count) + '-of-' + count),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: MultisigAccountModificationTransaction
+    if (isChange(deltas)) {
+      transactions.push(MultisigAccountModificationTransaction.create(
+        this.context.parameters.deadline,
+        deltas.minApproval,
+        deltas.minRemoval,
+        [],
+        [],
+        this.context.network.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // Transaction 02 is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // Transaction 03: AccountMetadataTransaction updating `Quorum_Policy`
+    if (undefined !== metadata) {
+      transactions.push(metadata)
+
+      // Transaction 03 is issued by **target** account
+      signers.push(this.target)
+    }
+
+    // For each partition, the quorum policy is applied with the token holder
+    for (let i = 0, m = this.partitions.length; i < m && isChange(partitionDeltas); i ++) {
+      // Transaction 04: MultisigAccountModificationTransaction
+      transactions.push(MultisigAccountModificationTransaction.create(
+        this.context.parameters.deadline,
+        partitionDeltas.minApproval, // relative to the partition quorum
+        partitionDeltas.minRemoval, // relative to the partition quorum
+        [],
+        [],
+        this.context.network.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // Transaction 04 is issued by **partition** account
+      signers.push(this.partitions[i].account)
+    }
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
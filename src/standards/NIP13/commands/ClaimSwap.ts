@@ -0,0 +1,154 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  PlainMessage,
+  PublicAccount,
+  SecretProofTransaction,
+  Transaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { SwapSecret } from '../models/SwapSecret'
+
+/**
+ * @class NIP13.ClaimSwap
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for claiming locked shares of NIP13 compliant tokens with a proof.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | recipient | Counterparty token holder partition account (receives shares) | `new PublicAccount(...)` |
+ * | secret | Lock secret (SHA3-256 hash of the proof) | `'B778A39A...'` |
+ * | proof | Lock proof (revealed secret) | `'C1E4A12B...'` |
+ */
+export class ClaimSwap extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'recipient', // must be a PARTITION ACCOUNT
+    'secret',
+    'proof',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ClaimSwap'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':swap-claim:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ClaimSwap` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const recipient = this.context.getInput('recipient', new PublicAccount())
+    const secret = this.context.getInput('secret', '').toUpperCase()
+    const proof = this.context.getInput('proof', '')
+
+    // find swap lock
+    const lock = this.swapLocks.find(l => l.secret === secret)
+
+    if (undefined === lock) {
+      throw new FailureInvalidArgument('Swap lock "' + secret + '" does not exist.')
+    }
+
+    // expired locks are returned to the target account by the network
+    if (!lock.isClaimable(this.height)) {
+      throw new FailureInvalidArgument('Swap lock "' + lock.secret + '" is claimed, refunded or expired.')
+    }
+
+    // only the counterparty partition can claim the locked shares
+    if (!lock.recipient.equals(recipient.address)) {
+      throw new FailureInvalidArgument(
+        'Swap lock "' + lock.secret + '" is not addressed to "' + recipient.address.plain() + '".'
+      )
+    }
+
+    // find recipient partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(recipient.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
+    }
+
+    if (!new SwapSecret(secret).matches(proof)) {
+      throw new FailureInvalidArgument('Lock proof does not match secret "' + secret + '".')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + secret), // use secret
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: SecretProofTransaction unlocking shares for recipient partition
+    transactions.push(SecretProofTransaction.create(
+      this.context.parameters.deadline,
+      SwapSecret.HASH_ALGORITHM,
+      secret,
+      the_partition.account.address,
+      proof.toUpperCase(),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **recipient** partition account
+    signers.push(the_partition.account)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
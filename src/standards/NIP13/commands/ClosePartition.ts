@@ -0,0 +1,229 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AccountMetadataTransaction,
+  EmptyMessage,
+  InnerTransaction,
+  KeyGenerator,
+  Mosaic,
+  MosaicAddressRestrictionTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { UserRole } from '../models/UserRole'
+
+/**
+ * @class NIP13.ClosePartition
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for closing token holder partitions of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account (gets closed) | `new PublicAccount(...)` |
+ * | recipient | (Optional) Partition account of the same owner (or use target account) | `new PublicAccount(...)` |
+ */
+export class ClosePartition extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ClosePartition'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':close:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ClosePartition` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const partition = this.context.getInput('partition', new PublicAccount())
+    const recipient = this.context.getInput('recipient', this.target)
+
+    // find partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // 1) sweep remaining balance to **target** account
+    if (the_partition.amount > 0 && recipient.address.equals(this.target.address)) {
+      // Transaction 1.01: Send back the balance to the target account
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        this.target.address, // back to target account (non-transferrable)
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            UInt64.fromUint(the_partition.amount),
+          ),
+        ],
+        EmptyMessage, // This transaction does not need a marker
+        this.context.network.networkType,
+        undefined,
+      ))
+
+      // Transaction 1.01 is issued by **partition** account
+      signers.push(the_partition.account)
+    }
+    // 2) sweep remaining balance to another **partition** of the same owner
+    else if (the_partition.amount > 0) {
+      const recipient_partition = this.partitions.find(
+        p => p.account.address.equals(recipient.address)
+      )
+
+      if (undefined === recipient_partition) {
+        throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
+      }
+
+      if (recipient_partition.account.address.equals(the_partition.account.address)) {
+        throw new FailureInvalidArgument('Partition "' + the_partition.name + '" cannot receive its own balance.')
+      }
+
+      if (recipient_partition.owner.address.plain() !== the_partition.owner.address.plain()) {
+        throw new FailureInvalidArgument('Partitions "' + the_partition.name + '" and "'
+          + recipient_partition.name + '" must have the same owner.')
+      }
+
+      // Transaction 2.01 to 2.03: @see AbstractCommand.createBalanceMove()
+      const payload = this.createBalanceMove(the_partition, recipient_partition, the_partition.amount, this.descriptor)
+      payload.transactions.forEach((t, i) => {
+        transactions.push(t)
+        signers.push(payload.signers[i])
+      })
+    }
+
+    // Transaction 02: MosaicAddressRestriction removing `User_Role` of partition
+    // :note: unset restriction values are represented by 0xFFFFFFFFFFFFFFFF
+    transactions.push(MosaicAddressRestrictionTransaction.create(
+      this.context.parameters.deadline,
+      this.identifier.toMosaicId(),
+      KeyGenerator.generateUInt64Key('User_Role'),
+      the_partition.account.address,
+      UInt64.fromHex('FFFFFFFFFFFFFFFF'), // newRestrictionValue
+      this.context.network.networkType,
+      UInt64.fromUint(UserRole.Holder), // previousRestrictionValue
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 02 is issued by the target account
+    signers.push(this.target)
+
+    // Transaction 03: AccountMetadataTransaction clearing `NAME`
+    // :note: an empty value XOR the previous value is the previous value
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.publicKey,
+      KeyGenerator.generateUInt64Key('NAME'),
+      -the_partition.name.length,
+      the_partition.name,
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 03 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // Transaction 04: AccountMetadataTransaction clearing `OWNER`
+    const owner = the_partition.owner.address.plain()
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.publicKey,
+      KeyGenerator.generateUInt64Key('OWNER'),
+      -owner.length,
+      owner,
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 04 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // Transaction 04.1: AccountMetadataTransaction clearing `NONCE`
+    // :note: the derivation nonce is recorded only if not `0`
+    if (the_partition.nonce > 0) {
+      const nonce = the_partition.nonce.toString()
+      transactions.push(AccountMetadataTransaction.create(
+        this.context.parameters.deadline,
+        the_partition.account.publicKey,
+        KeyGenerator.generateUInt64Key('NONCE'),
+        -nonce.length,
+        nonce,
+        this.context.network.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // Transaction 04.1 is issued by **partition** account
+      signers.push(the_partition.account)
+    }
+
+    // Transaction 05: Add closing marker transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + the_partition.name),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 05 is issued by **target** account
+    signers.push(this.target)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -30,6 +30,9 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureDuplicatePartition } from '../errors/FailureDuplicatePartition'
+import { FailurePartitionCollision } from '../errors/FailurePartitionCollision'
+import { UserRole } from '../models/UserRole'
 
 /**
  * @class NIP13.CreatePartition
@@ -44,6 +47,7 @@ import { AbstractCommand } from './AbstractCommand'
  * | name | Name of the token holder partition | `"NIP13 Example"` |
  * | partition | Token holder partition account | `new PublicAccount(...)` |
  * | holder | Actual token holder public account | `new PublicAccount(...)` |
+ * | nonce | (Optional) Derivation nonce of the partition account (defaults to `0`) | `1` |
  */
 export class CreatePartition extends AbstractCommand {
   /**
@@ -84,27 +88,61 @@ export class CreatePartition extends AbstractCommand {
     const name = this.context.getInput('name', 'default')
     const partition = this.context.getInput('partition', new PublicAccount())
     const holder = this.context.getInput('holder', new PublicAccount())
+    const nonce = this.context.getInput('nonce', 0)
 
     // find partition
     const the_partition = this.partitions.find(
       p => p.account.address.equals(partition.address)
     )
 
+    // derived partition accounts may collide for different owners or names
+    if (undefined !== the_partition && (
+      the_partition.name !== name || !the_partition.owner.address.equals(holder.address)
+    )) {
+      throw new FailurePartitionCollision(
+        'Partition account is already used by partition "' + the_partition.name + '" of a different owner or name.'
+      )
+    }
+
     if (undefined !== the_partition) {
-      //XXX partition already exists
-      return []
+      throw new FailureDuplicatePartition('Partition "' + the_partition.name + '" already exists.')
     }
 
+    // Transaction 01 to 06 (07 with nonce): @see createPartition()
+    const payload = this.createPartition(name, partition, holder, nonce)
+
+    // return transactions issued by assigned signer
+    return payload.transactions.map(
+      (transaction, i) => transaction.toAggregate(payload.signers[i])
+    )
+  }
+  // end-region abstract methods
+
+  /**
+   * Helper method for creating partitions on Symbol networks.
+   *
+   * @param {string}        name
+   * @param {PublicAccount} partition
+   * @param {PublicAccount} holder
+   * @param {number}        nonce   (Optional) Derivation nonce, recorded only if not `0`.
+   */
+  protected createPartition(
+    name: string,
+    partition: PublicAccount,
+    holder: PublicAccount,
+    nonce: number = 0,
+  ): { transactions: InnerTransaction[], signers: PublicAccount[] } {
     // prepare output
     const transactions: InnerTransaction[] = []
     const signers: PublicAccount[] = []
 
     // Transaction 01: MultisigAccountModificationTransaction
-    // :warning: Token holder is made optional in both minApproval and minRemoval.
+    // :warning: Token holder is made optional in minApproval and counted in minRemoval.
+    const quorum = this.getQuorumPolicy().getPartitionQuorum(this.operators.length)
     transactions.push(MultisigAccountModificationTransaction.create(
       this.context.parameters.deadline,
-      this.operators.length, // all operators for minApproval (holder is optional)
-      this.operators.length, // all except one for minRemoval (holder is optional)
+      quorum.minApproval, // all operators for minApproval (by default, holder is optional)
+      quorum.minRemoval, // all except one for minRemoval (by default, holder is counted)
       this.operators // operators
           .concat([holder]), // + token holder
       [],
@@ -143,6 +181,23 @@ export class CreatePartition extends AbstractCommand {
     // Transaction 03 is issued by **partition** account
     signers.push(partition)
 
+    // Transaction 03.1: AccountMetadataTransaction (collision resolution)
+    // :note: The derivation nonce is recorded so that lookups reproduce the partition account.
+    if (nonce > 0) {
+      transactions.push(AccountMetadataTransaction.create(
+        this.context.parameters.deadline,
+        partition.publicKey,
+        KeyGenerator.generateUInt64Key('NONCE'),
+        nonce.toString().length,
+        nonce.toString(),
+        this.context.network.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // Transaction 03.1 is issued by **partition** account
+      signers.push(partition)
+    }
+
     // Transaction 03: AccountMosaicRestrictionTransaction
     // :note: This transaction authorizes mosaicId and networkCurrencyMosaicId for partition
     transactions.push(AccountMosaicRestrictionTransaction.create(
@@ -158,13 +213,13 @@ export class CreatePartition extends AbstractCommand {
     signers.push(partition)
 
     // Transaction 04: MosaicAddressRestriction for target address
-    // :note: This transaction authorizes the partition account by adding a User_Role=2 (Holder)
+    // :note: This transaction authorizes the partition account by adding a User_Role=Holder
     transactions.push(MosaicAddressRestrictionTransaction.create(
       this.context.parameters.deadline,
       this.identifier.toMosaicId(),
       KeyGenerator.generateUInt64Key('User_Role'),
       partition.address,
-      UInt64.fromUint(2), // newRestrictionValue: 2 = Holder
+      UInt64.fromUint(UserRole.Holder), // newRestrictionValue
       this.context.network.networkType,
       undefined, // previousRestrictionValue
       undefined, // maxFee 0 for inner
@@ -186,10 +241,9 @@ export class CreatePartition extends AbstractCommand {
     // Transaction 1.05 is issued by **target** account
     signers.push(this.target)
 
-    // return transactions issued by assigned signer
-    return transactions.map(
-      (transaction, i) => transaction.toAggregate(signers[i])
-    )
+    return {
+      transactions,
+      signers,
+    }
   }
-  // end-region abstract methods
 }
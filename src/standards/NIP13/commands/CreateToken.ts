@@ -45,6 +45,9 @@ import {
 import { CommandOption, AllowanceResult } from '../../../../index'
 import { AbstractCommand } from './AbstractCommand'
 import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+import { UserRole } from '../models/UserRole'
+import { QuorumPolicy } from '../models/QuorumPolicy'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
 
 /**
  * @class NIP13.CreateToken
@@ -62,6 +65,9 @@ import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
  * | operators | Security Token Operators | `[new PublicAccount(...)]` |
  * | supply | Total number of outstanding shares | `123456` |
  * | metadata | Metadata associated at token level | `{'MIC': 'XNAS', ...}` |
+ * | namespaceDuration | (Optional) Root namespace rental duration in blocks | `2010240` |
+ * | mosaicDuration | (Optional) Mosaic duration in blocks, `0` for an eternal mosaic | `0` |
+ * | policy | (Optional) Operators quorum policy, defaults to all operators | `new QuorumPolicy(2, 2)` |
  */
 export class CreateToken extends AbstractCommand {
   /**
@@ -105,7 +111,7 @@ export class CreateToken extends AbstractCommand {
     super.assertHasMandatoryArguments(argv, this.arguments)
 
     // allows anyone to create tokens
-    return new AllowanceResult(true)
+    return this.validate()
   }
 
   // region abstract methods
@@ -151,17 +157,33 @@ export class CreateToken extends AbstractCommand {
       '', // Industry
       {}, // customMetadata
     ))
+    const namespaceDuration = this.context.getInput('namespaceDuration', this.context.network.defaultDuration)
+    const mosaicDuration = this.context.getInput('mosaicDuration', this.context.network.defaultDuration)
+    const policy = this.context.getInput('policy', QuorumPolicy.DEFAULT)
+
+    // :note: root namespaces cannot be registered eternally
+    if (namespaceDuration <= 0) {
+      throw new FailureInvalidArgument('Argument "namespaceDuration" must be greater than 0.')
+    }
+
+    if (mosaicDuration < 0) {
+      throw new FailureInvalidArgument('Argument "mosaicDuration" must not be negative.')
+    }
+
+    if (!policy.isValid(operators.length)) {
+      throw new FailureInvalidArgument('Quorum policy cannot be applied to ' + operators.length + ' operator(s).')
+    }
 
     // prepare output
     const transactions: InnerTransaction[] = []
     const signers: PublicAccount[] = []
 
     // Transaction 01: MultisigAccountModificationTransaction
-    // :warning: minRemoval is always n-1 to permit loss of up to 1 key.
+    // :warning: The default policy uses n-1 for minRemoval to permit loss of up to 1 key.
     transactions.push(MultisigAccountModificationTransaction.create(
       this.context.parameters.deadline,
-      operators.length, // all operators for minApproval
-      operators.length - 1, // all except one for minRemoval
+      policy.getMinApproval(operators.length), // all operators for minApproval (by default)
+      policy.getMinRemoval(operators.length), // all except one for minRemoval (by default)
       operators,
       [],
       this.context.network.networkType,
@@ -185,6 +207,21 @@ export class CreateToken extends AbstractCommand {
     // Transaction 02 is issued by **partition** account
     signers.push(this.target)
 
+    // Transaction 02.1: AccountMetadataTransaction attaching `Quorum_Policy`
+    const value = policy.toMetadata()
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      this.target.publicKey,
+      KeyGenerator.generateUInt64Key('Quorum_Policy'),
+      value.length,
+      value,
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 02.1 is issued by **target** account
+    signers.push(this.target)
+
     // Transaction 03: NamespaceRegistrationtTransaction
     // :note: up to `maxNamespacesDepth` levels are allowed
     const parts = fullName.split('.')
@@ -194,7 +231,7 @@ export class CreateToken extends AbstractCommand {
         transaction = NamespaceRegistrationTransaction.createRootNamespace(
           this.context.parameters.deadline,
           parts[i], // namespaceName
-          UInt64.fromUint(2010240), // 1 year at 15 sec / block
+          UInt64.fromUint(namespaceDuration),
           this.context.network.networkType,
           undefined, // maxFee 0 for inner
         )
@@ -224,7 +261,7 @@ export class CreateToken extends AbstractCommand {
       mosaicId,
       MosaicFlags.create(true, false, true), // always non-transferable.
       0,
-      UInt64.fromUint(2010240), // 1 year at 15 sec / block
+      UInt64.fromUint(mosaicDuration), // 0 for eternal mosaics
       this.context.network.networkType,
       undefined, // maxFee 0 for inner
     ))
@@ -427,14 +464,14 @@ export class CreateToken extends AbstractCommand {
 
     // Transaction 17: MosaicGlobalRestriction with mosaicId (refId 0)
     // :warning: This restricts the **mosaic** to accounts who have the 
-    //           'User_Role' flag set to at least 2 ("Holder" | "Target").
+    //           'User_Role' flag set to at most `Locker` ("Locker" | "Holder" | "Target").
     transactions.push(MosaicGlobalRestrictionTransaction.create(
       this.context.parameters.deadline,
       mosaicId,
       KeyGenerator.generateUInt64Key('User_Role'),
       UInt64.fromUint(0), // previousRestrictionValue
       MosaicRestrictionType.NONE, // previousRestrictionType
-      UInt64.fromUint(3), // newRestrictionValue: 1 = Target ; 2 = Holder ; 3 = Locker ; 4 = Guest
+      UInt64.fromUint(UserRole.Locker), // newRestrictionValue: @see {UserRole}
       MosaicRestrictionType.LE, // newRestrictionType: `less or equal to`
       this.context.network.networkType,
       undefined, // referenceMosaicId: empty means "self"
@@ -450,7 +487,7 @@ export class CreateToken extends AbstractCommand {
       mosaicId,
       KeyGenerator.generateUInt64Key('User_Role'),
       this.target.address,
-      UInt64.fromUint(1), // newRestrictionValue: 1 = Target
+      UInt64.fromUint(UserRole.Target), // newRestrictionValue
       this.context.network.networkType,
       undefined, // previousRestrictionValue
       undefined, // maxFee 0 for inner
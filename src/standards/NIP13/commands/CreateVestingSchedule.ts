@@ -0,0 +1,114 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AccountMetadataTransaction,
+  KeyGenerator,
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { LockBalance } from './LockBalance'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { VestingSchedule } from '../models/VestingSchedule'
+
+/**
+ * @class NIP13.CreateVestingSchedule
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for locking vested balances of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account (gets locked) | `new PublicAccount(...)` |
+ * | locker | Token locker account (lock account) | `new PublicAccount(...)` |
+ * | schedule | Vesting schedule of locked shares | `new VestingSchedule(...)` |
+ */
+export class CreateVestingSchedule extends LockBalance {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+    'locker',
+    'schedule',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'CreateVestingSchedule'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':vest:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `CreateVestingSchedule` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const locker = this.context.getInput('locker', new PublicAccount())
+    const schedule = this.context.getInput<VestingSchedule | null>('schedule', null)
+
+    if (null === schedule || schedule.amount <= 0) {
+      throw new FailureInvalidArgument('Vesting schedule amount must be greater than 0.')
+    }
+
+    if (!Number.isInteger(schedule.tranches) || schedule.tranches < 1) {
+      throw new FailureInvalidArgument('Vesting schedule must contain at least 1 tranche.')
+    }
+
+    if (schedule.cliff < 0 || schedule.period < 0 || (schedule.tranches > 1 && schedule.period === 0)) {
+      throw new FailureInvalidArgument('Vesting schedule cliff and period must be positive.')
+    }
+
+    // set `LockBalance` command arguments
+    this.context.setInput('amount', schedule.amount)
+
+    // Transactions: @see LockBalance.transactions()
+    const transactions = super.transactions
+    const value = schedule.toMetadata()
+
+    // Transaction N+1: AccountMetadataTransaction attaching `Vesting_Schedule`
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      locker.publicKey,
+      KeyGenerator.generateUInt64Key('Vesting_Schedule'),
+      value.length,
+      value,
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ).toAggregate(locker)) // Transaction N+1 is issued by **locker** account
+
+    return transactions
+  }
+  // end-region abstract methods
+}
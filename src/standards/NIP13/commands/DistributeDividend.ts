@@ -0,0 +1,189 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Mosaic,
+  MosaicId,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+
+/**
+ * @class NIP13.DistributeDividend
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for distributing dividends to holders of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | amount | Total payout (absolute amount of the payment mosaic) | `1000000` |
+ * | mosaicId | (Optional) Payment mosaic, defaults to the network fee mosaic | `new MosaicId(...)` |
+ */
+export class DistributeDividend extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'amount',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'DistributeDividend'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':dividend:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `DistributeDividend` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // Transaction 01: Add execution proof transaction
+    const marker = this.createMarker(this.descriptor)
+
+    // return transactions issued by assigned signer
+    return [marker].concat(...this.paymentTransactions)
+  }
+
+  /**
+   * @description Builds the inner transactions of a `DistributeDividend`
+   *              command split in chunks that respect aggregate limits.
+   *              Each chunk starts with its own execution proof marker.
+   * @see {AbstractCommand.getMarkedChunks}
+   * @return {Transaction[][]}
+   **/
+  protected get chunks(): Transaction[][] {
+    return this.getMarkedChunks(this.descriptor, this.paymentTransactions)
+  }
+  // end-region abstract methods
+
+  /**
+   * Compute the pro-rata share of `amount` for each owner of token holder
+   * partitions. Shares are rounded down and remaining units are assigned
+   * one by one to the owners with the largest rounding remainder, ties
+   * are broken by ascending owner address. Owners are sorted by address.
+   *
+   * @param   {number}  amount    The total payout (absolute amount).
+   * @return  {{owner: PublicAccount, amount: number}[]}
+   */
+  public getPayments(
+    amount: number,
+  ): {owner: PublicAccount, amount: number}[] {
+    // consolidate shares by partition owner
+    const holdings: {owner: PublicAccount, shares: number}[] = []
+    this.partitions.filter(p => p.amount > 0).forEach(p => {
+      const holding = holdings.find(h => h.owner.publicKey === p.owner.publicKey)
+      if (undefined === holding) {
+        holdings.push({ owner: p.owner, shares: p.amount })
+      }
+      else {
+        holding.shares += p.amount
+      }
+    })
+
+    const total = holdings.reduce((sum, h) => sum + h.shares, 0)
+    if (total <= 0) {
+      throw new FailureInvalidArgument('Token partitions do not hold any shares.')
+    }
+
+    // deterministic ordering by owner address
+    holdings.sort((a, b) => a.owner.address.plain().localeCompare(b.owner.address.plain()))
+
+    // :note: split the payout to keep products in the safe integer range
+    const quotient = Math.floor(amount / total)
+    const rest = amount % total
+    const payments = holdings.map(h => {
+      if (!Number.isSafeInteger(rest * h.shares)) {
+        throw new FailureInvalidArgument('Argument "amount" exceeds the supported precision.')
+      }
+
+      return {
+        owner: h.owner,
+        amount: quotient * h.shares + Math.floor(rest * h.shares / total),
+        remainder: (rest * h.shares) % total,
+      }
+    })
+
+    // assign remaining units by largest remainder (stable for ties)
+    const remaining = amount - payments.reduce((sum, p) => sum + p.amount, 0)
+    const byRemainder = payments.slice().sort((a, b) => b.remainder - a.remainder)
+    for (let i = 0; i < remaining; i ++) {
+      byRemainder[i].amount += 1
+    }
+
+    return payments.map(p => ({ owner: p.owner, amount: p.amount }))
+  }
+
+  /**
+   * @description Builds one payment transfer for each owner of
+   *              token holder partitions.
+   * @return {Transaction[][]}
+   **/
+  protected get paymentTransactions(): Transaction[][] {
+    // read external arguments
+    const amount = this.context.getInput('amount', 0)
+    const mosaicId = this.context.getInput<MosaicId>('mosaicId', this.context.network.feeMosaicId)
+
+    if (amount <= 0 || !Number.isSafeInteger(amount)) {
+      throw new FailureInvalidArgument('Argument "amount" must be a positive integer.')
+    }
+
+    // payments are issued by the target account
+    if (amount > this.getBalance(this.target, mosaicId)) {
+      throw new FailureInsufficientBalance('Target account has insufficient funds.')
+    }
+
+    // owners with a share of 0 are not paid
+    return this.getPayments(amount).filter(p => p.amount > 0).map(payment => [
+      TransferTransaction.create(
+        this.context.parameters.deadline,
+        payment.owner.address,
+        [
+          new Mosaic(
+            mosaicId,
+            UInt64.fromUint(payment.amount),
+          ),
+        ],
+        PlainMessage.create(this.descriptor + ':' + mosaicId.toHex()),
+        this.context.network.networkType,
+        undefined,
+      ).toAggregate(this.target), // payment is issued by **target** account
+    ])
+  }
+}
@@ -26,6 +26,8 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
 
 /**
  * @class NIP13.ForcedTransfer
@@ -102,8 +104,11 @@ export class ForcedTransfer extends AbstractCommand {
 
     // 'ForcedTransfer' is only possible between partitions or back to target
     if (undefined === sender_partition) {
-      // sender partition doesn't exist
-      return []
+      throw new FailureUnknownPartition('Sender partition "' + sender.address.plain() + '" does not exist.')
+    }
+
+    if (amount > sender_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + sender_partition.name + '" has insufficient balance.')
     }
 
     // prepare output
@@ -146,8 +151,7 @@ export class ForcedTransfer extends AbstractCommand {
     // 2) force-sending the amount to a partition
     else {
       if (undefined === recipient_partition) {
-        // Error: recipient partition doesn't exist
-        return []
+        throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
       }
 
       // Transaction 2.01: Send back the amount to the target account
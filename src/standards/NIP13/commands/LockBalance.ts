@@ -32,6 +32,9 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+import { UserRole } from '../models/UserRole'
 
 /**
  * @class NIP13.LockBalance
@@ -94,8 +97,12 @@ export class LockBalance extends AbstractCommand {
 
     // 'LockBalance' is only possible for existing partitions
     if (undefined === the_partition) {
-      // the partition doesn't exist
-      return []
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    // 'LockBalance' is only possible with sufficient balance
+    if (amount > the_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + the_partition.name + '" has insufficient balance.')
     }
 
     // prepare output
@@ -226,13 +233,13 @@ export class LockBalance extends AbstractCommand {
     signers.push(locker)
 
     // Transaction 04: MosaicAddressRestriction for locker address
-    // :note: This transaction authorizes the locker account by adding a User_Role=3 (Locker)
+    // :note: This transaction authorizes the locker account by adding a User_Role=Locker
     transactions.push(MosaicAddressRestrictionTransaction.create(
       this.context.parameters.deadline,
       this.identifier.toMosaicId(),
       KeyGenerator.generateUInt64Key('User_Role'),
       locker.address,
-      UInt64.fromUint(3), // newRestrictionValue: 3 = Locker
+      UInt64.fromUint(UserRole.Locker), // newRestrictionValue
       this.context.network.networkType,
       undefined, // previousRestrictionValue
       undefined, // maxFee 0 for inner
@@ -0,0 +1,189 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Convert,
+  EmptyMessage,
+  InnerTransaction,
+  Mosaic,
+  PlainMessage,
+  PublicAccount,
+  SecretLockTransaction,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+import { SwapSecret } from '../models/SwapSecret'
+
+/**
+ * @class NIP13.LockSwap
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for locking shares of NIP13 compliant tokens with a secret.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account (locks shares) | `new PublicAccount(...)` |
+ * | recipient | Counterparty token holder partition account | `new PublicAccount(...)` |
+ * | amount | Number of shares to be locked | `1` |
+ * | secret | Lock secret (SHA3-256 hash of the proof) | `SwapSecret.generate().secret` |
+ * | duration | Lock duration in blocks | `5760` |
+ */
+export class LockSwap extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+    'recipient', // must be a PARTITION ACCOUNT
+    'amount',
+    'secret',
+    'duration',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'LockSwap'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':swap-lock:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `LockSwap` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const partition = this.context.getInput('partition', new PublicAccount())
+    const recipient = this.context.getInput('recipient', new PublicAccount())
+    const amount = this.context.getInput('amount', 0)
+    const secret = this.context.getInput('secret', '')
+    const duration = this.context.getInput('duration', 0)
+
+    // find partitions
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+    const recipient_partition = this.partitions.find(
+      p => p.account.address.equals(recipient.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    // shares can only be locked toward partitions (User_Role restrictions)
+    if (undefined === recipient_partition) {
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
+    }
+
+    if (the_partition.account.address.equals(recipient_partition.account.address)) {
+      throw new FailureInvalidArgument('Partition and recipient partition must be different.')
+    }
+
+    if (amount <= 0 || duration <= 0) {
+      throw new FailureInvalidArgument('Lock amount and duration must be greater than 0.')
+    }
+
+    if (secret.length !== 64 || !Convert.isHexString(secret)) {
+      throw new FailureInvalidArgument('Lock secret must be a SHA3-256 hash in hexadecimal format.')
+    }
+
+    // 'LockSwap' is only possible with sufficient balance
+    if (amount > the_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + the_partition.name + '" has insufficient balance.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + secret.toUpperCase()), // use secret
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: Send back the amount to the target account
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address, // back to target account (non-transferrable)
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(amount),
+        ),
+      ],
+      EmptyMessage, // This transaction does not need a marker
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // Transaction 03: SecretLockTransaction toward recipient partition
+    transactions.push(SecretLockTransaction.create(
+      this.context.parameters.deadline,
+      new Mosaic(
+        this.identifier.toMosaicId(),
+        UInt64.fromUint(amount),
+      ),
+      UInt64.fromUint(duration),
+      SwapSecret.HASH_ALGORITHM,
+      secret.toUpperCase(),
+      recipient_partition.account.address,
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 03 is issued by **target** account (mosaic owner)
+    signers.push(this.target)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,150 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  KeyGenerator,
+  MosaicAddressRestrictionTransaction,
+  Transaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { UserRole } from '../models/UserRole'
+
+/**
+ * @class NIP13.ManageWhitelist
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for assigning or removing user roles of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | addresses | Addresses for which the role is assigned or removed | `[Address.createFromRawAddress(...)]` |
+ * | role | Assigned or removed role | `UserRole.Guest` |
+ * | remove | (Optional) Whether the role is removed, defaults to `false` | `true` |
+ *
+ * The current role of each address is read from network.
+ */
+export class ManageWhitelist extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'addresses',
+    'role',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ManageWhitelist'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':whitelist:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ManageWhitelist` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // Transaction 01: Add execution proof transaction
+    const marker = this.createMarker(this.descriptor)
+
+    // return transactions issued by assigned signer
+    return [marker].concat(...this.restrictionTransactions)
+  }
+
+  /**
+   * @description Builds the inner transactions of a `ManageWhitelist`
+   *              command split in chunks that respect aggregate limits.
+   *              Each chunk starts with its own execution proof marker.
+   * @see {AbstractCommand.getMarkedChunks}
+   * @return {Transaction[][]}
+   **/
+  protected get chunks(): Transaction[][] {
+    return this.getMarkedChunks(this.descriptor, this.restrictionTransactions)
+  }
+  // end-region abstract methods
+
+  /**
+   * @description Builds one `User_Role` address restriction for each
+   *              address listed in `addresses`.
+   * @return {Transaction[][]}
+   **/
+  protected get restrictionTransactions(): Transaction[][] {
+    // read external arguments
+    const addresses: Address[] = this.context.getInput('addresses', [])
+    const role = this.context.getInput<UserRole>('role', UserRole.Guest)
+    const remove = this.context.getInput('remove', false)
+
+    if (!addresses.length) {
+      throw new FailureInvalidArgument('Argument "addresses" must not be empty.')
+    }
+
+    if (undefined === UserRole[role] || UserRole.Target === role) {
+      throw new FailureInvalidArgument('Argument "role" must be one of Holder, Locker or Guest.')
+    }
+
+    if (addresses.some(a => a.equals(this.target.address))) {
+      throw new FailureInvalidArgument('The role of the target account cannot be modified.')
+    }
+
+    // roles can only be removed from addresses that have said role
+    const missing = addresses.find(a => !this.roles.some(r => r.address.equals(a) && r.role === role))
+    if (remove && undefined !== missing) {
+      throw new FailureInvalidArgument('Address "' + missing.plain() + '" does not have said role.')
+    }
+
+    // :note: unset restriction values are represented by 0xFFFFFFFFFFFFFFFF
+    const unset = UInt64.fromHex('FFFFFFFFFFFFFFFF')
+    const newValue = remove ? unset : UInt64.fromUint(role)
+
+    // the previous value is the current role of the address
+    const getPreviousValue = (address: Address) => {
+      const assignment = this.roles.find(r => r.address.equals(address))
+      return undefined !== assignment ? UInt64.fromUint(assignment.role) : unset
+    }
+
+    return addresses.map(address => [
+      MosaicAddressRestrictionTransaction.create(
+        this.context.parameters.deadline,
+        this.identifier.toMosaicId(),
+        KeyGenerator.generateUInt64Key('User_Role'),
+        address,
+        newValue, // newRestrictionValue: @see {UserRole}
+        this.context.network.networkType,
+        getPreviousValue(address), // previousRestrictionValue
+        undefined, // maxFee 0 for inner
+      ).toAggregate(this.target), // restriction is issued by **target** account
+    ])
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+
+/**
+ * @class NIP13.MergePartitions
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for merging token holder partitions of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partitions | Token holder partition accounts (merged) | `[new PublicAccount(...)]` |
+ * | recipient | Token holder partition account (receives all shares) | `new PublicAccount(...)` |
+ */
+export class MergePartitions extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partitions', // must be PARTITION ACCOUNTS
+    'recipient', // must be a PARTITION ACCOUNT
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'MergePartitions'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':merge:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `MergePartitions` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const partitions = this.context.getInput<PublicAccount[]>('partitions', [])
+    const recipient = this.context.getInput('recipient', new PublicAccount())
+
+    // find recipient partition
+    const recipient_partition = this.partitions.find(
+      p => p.account.address.equals(recipient.address)
+    )
+
+    if (undefined === recipient_partition) {
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
+    }
+
+    if (!partitions.length) {
+      throw new FailureInvalidArgument('At least one partition must be merged.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    for (let i = 0, m = partitions.length; i < m; i ++) {
+      const the_partition = this.partitions.find(
+        p => p.account.address.equals(partitions[i].address)
+      )
+
+      if (undefined === the_partition) {
+        throw new FailureUnknownPartition('Partition "' + partitions[i].address.plain() + '" does not exist.')
+      }
+
+      if (partitions.slice(0, i).some(a => a.address.equals(the_partition.account.address))) {
+        throw new FailureInvalidArgument('Partition "' + the_partition.name + '" cannot be merged more than once.')
+      }
+
+      if (the_partition.account.address.equals(recipient_partition.account.address)) {
+        throw new FailureInvalidArgument('Partition "' + the_partition.name + '" cannot be merged into itself.')
+      }
+
+      // 'MergePartitions' is only possible between partitions of one holder
+      if (the_partition.owner.address.plain() !== recipient_partition.owner.address.plain()) {
+        throw new FailureInvalidArgument('Partitions "' + the_partition.name + '" and "'
+          + recipient_partition.name + '" must have the same owner.')
+      }
+
+      // empty partitions have no shares to move
+      if (the_partition.amount <= 0) {
+        continue
+      }
+
+      // Transaction 01 to 03: @see AbstractCommand.createBalanceMove()
+      const payload = this.createBalanceMove(the_partition, recipient_partition, the_partition.amount, this.descriptor)
+      payload.transactions.forEach((t, j) => {
+        transactions.push(t)
+        signers.push(payload.signers[j])
+      })
+    }
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
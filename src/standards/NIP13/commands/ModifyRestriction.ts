@@ -28,6 +28,8 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { UserRole } from '../models/UserRole'
 
 /**
  * @class NIP13.ModifyRestriction
@@ -111,7 +113,7 @@ export class ModifyRestriction extends AbstractCommand {
         : MosaicRestrictionType.NONE
 
       const previousValue: number = field === 'User_Role'
-        ? 3 // 3 = default minimum value of "User_Role"
+        ? UserRole.Locker // default minimum value of "User_Role"
         : 0 // no previous value
 
       // Transaction 02: MosaicGlobalRestriction with mosaicId (refId 0)
@@ -121,7 +123,7 @@ export class ModifyRestriction extends AbstractCommand {
         KeyGenerator.generateUInt64Key(field),
         UInt64.fromUint(previousValue), // previousRestrictionValue
         previousType, // previousRestrictionType
-        UInt64.fromUint(value), // newRestrictionValue: 1 = Target ; 2 = Holder ; 3 = Locker ; 4 = Guest
+        UInt64.fromUint(value), // newRestrictionValue: @see {UserRole}
         MosaicRestrictionType.LE, // newRestrictionType: `less or equal to`
         this.context.network.networkType,
         undefined, // referenceMosaicId: empty means "self"
@@ -140,8 +142,7 @@ export class ModifyRestriction extends AbstractCommand {
 
       // 'ModifyRestriction' is only possible for existing partitions
       if (undefined === the_partition) {
-        // the partition doesn't exist
-        return []
+        throw new FailureUnknownPartition('Partition "' + restrictee.address.plain() + '" does not exist.')
       }
 
       // Transaction 02: MosaicAddressRestriction for account address
@@ -152,7 +153,7 @@ export class ModifyRestriction extends AbstractCommand {
         the_partition.account.address,
         UInt64.fromUint(value), // newRestrictionValue
         this.context.network.networkType,
-        UInt64.fromUint(2), // previousRestrictionValue: 2 = Holder
+        UInt64.fromUint(UserRole.Holder), // previousRestrictionValue
         undefined, // maxFee 0 for inner
       ))
 
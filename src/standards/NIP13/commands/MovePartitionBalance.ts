@@ -0,0 +1,124 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+
+/**
+ * @class NIP13.MovePartitionBalance
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for moving shares between partitions of one holder.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | sender | Sender token holder partition account | `new PublicAccount(...)` |
+ * | recipient | Recipient token holder partition account (same owner) | `new PublicAccount(...)` |
+ * | amount | Number of shares to be moved | `1` |
+ */
+export class MovePartitionBalance extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'sender', // must be a PARTITION ACCOUNT
+    'recipient', // must be a PARTITION ACCOUNT
+    'amount',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'MovePartitionBalance'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':move:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `MovePartitionBalance` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const sender = this.context.getInput('sender', new PublicAccount())
+    const recipient = this.context.getInput('recipient', new PublicAccount())
+    const amount = this.context.getInput('amount', 0)
+
+    // find partitions
+    const sender_partition = this.partitions.find(
+      p => p.account.address.equals(sender.address)
+    )
+    const recipient_partition = this.partitions.find(
+      p => p.account.address.equals(recipient.address)
+    )
+
+    if (undefined === sender_partition) {
+      throw new FailureUnknownPartition('Sender partition "' + sender.address.plain() + '" does not exist.')
+    }
+
+    if (undefined === recipient_partition) {
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
+    }
+
+    if (sender_partition.account.address.equals(recipient_partition.account.address)) {
+      throw new FailureInvalidArgument('Sender and recipient partitions must be different.')
+    }
+
+    // 'MovePartitionBalance' is only possible between partitions of one holder
+    if (sender_partition.owner.address.plain() !== recipient_partition.owner.address.plain()) {
+      throw new FailureInvalidArgument('Partitions "' + sender_partition.name + '" and "'
+        + recipient_partition.name + '" must have the same owner.')
+    }
+
+    if (amount <= 0) {
+      throw new FailureInvalidArgument('Amount must be greater than 0.')
+    }
+
+    if (amount > sender_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + sender_partition.name + '" has insufficient balance.')
+    }
+
+    // Transaction 01 to 03: @see AbstractCommand.createBalanceMove()
+    const payload = this.createBalanceMove(sender_partition, recipient_partition, amount, this.descriptor)
+
+    // return transactions issued by assigned signer
+    return payload.transactions.map(
+      (transaction, i) => transaction.toAggregate(payload.signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,138 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  Transaction,
+  PublicAccount,
+  TransferTransaction,
+  PlainMessage,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  AllowanceResult,
+  CommandOption,
+  Notification,
+} from '../../../../index'
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+
+/**
+ * @class NIP13.Notify
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for notifying accounts or partitions of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | account | Notified account or token holder partition account | `new PublicAccount(...)` |
+ * | notification | Notification object | `new Notification(...)` |
+ */
+export class Notify extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'account', // can be either of a PARTITION ACCOUNT or any account
+    'notification',
+  ]
+
+  /**
+   * @description Method that verifies the allowance of an operator to
+   *              execute the token command `Notify`.
+   * @see {BaseCommand.canExecute}
+   **/
+  public canExecute(
+    actor: PublicAccount,
+    argv?: CommandOption[]
+  ): AllowanceResult {
+    // validate mandatory inputs
+    super.assertHasMandatoryArguments(argv, this.arguments)
+
+    // the target account and operators can notify
+    const isTarget = this.target.publicKey === actor.publicKey
+    const isOperator = this.operators.some(
+      (p: PublicAccount) => {
+        return p.publicKey === actor.publicKey
+      })
+
+    if (!isTarget && !isOperator) {
+      return new AllowanceResult(false, 'Only target and operators can execute ' + this.name + '.')
+    }
+
+    // validate command arguments
+    return this.validate()
+  }
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'Notify'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':notify:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `Notify` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const account = this.context.getInput('account', new PublicAccount())
+    const notification = this.context.getInput('notification', new Notification(account.address, ''))
+
+    if (!notification.message.length) {
+      throw new FailureInvalidArgument('Notification message must not be empty.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add notification transaction (marker)
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      account.address, // account or partition account
+      [],
+      PlainMessage.create(this.descriptor + ':' + notification.message),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,184 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AccountMetadataTransaction,
+  Convert,
+  InnerTransaction,
+  KeyGenerator,
+  MultisigAccountModificationTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureInvalidIPFSHash } from '../errors/FailureInvalidIPFSHash'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+
+/**
+ * @class NIP13.ReassignPartitionOwner
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for reassigning the owner of token holder partitions (lost keys).
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account | `new PublicAccount(...)` |
+ * | holder | New token holder public account | `new PublicAccount(...)` |
+ * | filenode | IPFS file hash of the supporting document (starts with `Qm`) | `"QmYwAPJzv5CZ..."` |
+ * | filename | File name of the supporting document | `"court-order.pdf"` |
+ */
+export class ReassignPartitionOwner extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+    'holder',
+    'filenode', // IPNS file name (starts with `Qm`)
+    'filename',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ReassignPartitionOwner'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':reassign:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ReassignPartitionOwner` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const partition = this.context.getInput('partition', new PublicAccount())
+    const holder = this.context.getInput('holder', new PublicAccount())
+    const filenode = this.context.getInput('filenode', '')
+    const filename = this.context.getInput('filename', '')
+
+    if (!filenode.length || !filename.length) {
+      throw new FailureInvalidArgument('Arguments "filenode" and "filename" must not be empty.')
+    }
+
+    if (!filenode.startsWith('Qm')) {
+      throw new FailureInvalidIPFSHash('Invalid IPFS file hash "' + filenode + '".')
+    }
+
+    // find partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    if (the_partition.owner.address.plain() === holder.address.plain()) {
+      throw new FailureInvalidArgument('Partition "' + the_partition.name + '" is already owned by this holder.')
+    }
+
+    if (this.operators.some(o => o.address.plain() === holder.address.plain())) {
+      throw new FailureInvalidArgument('Operators cannot be the owner of partition "' + the_partition.name + '".')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + the_partition.name),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: Attach supporting document hash
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(filename + ':' + filenode),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // Transaction 03: MultisigAccountModificationTransaction
+    // :note: operators are sufficient for minRemoval (lost token holder key)
+    transactions.push(MultisigAccountModificationTransaction.create(
+      this.context.parameters.deadline,
+      0, // minApproval unchanged (holder is optional)
+      0, // minRemoval unchanged (holder is optional)
+      [holder], // + new token holder
+      [the_partition.owner], // - previous token holder
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 03 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // Transaction 04: AccountMetadataTransaction updating `OWNER`
+    // :note: metadata values are updated with XOR of the previous and new values
+    const previousOwner = Convert.utf8ToUint8(the_partition.owner.address.plain())
+    const newOwner = Convert.utf8ToUint8(holder.address.plain())
+    transactions.push(AccountMetadataTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.publicKey,
+      KeyGenerator.generateUInt64Key('OWNER'),
+      newOwner.length - previousOwner.length,
+      Convert.decodeHex(Convert.xor(previousOwner, newOwner)),
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 04 is issued by **partition** account
+    signers.push(the_partition.account)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,152 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  Mosaic,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+
+/**
+ * @class NIP13.RefundSwap
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for refunding expired swap locks of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | secret | Secret of the expired swap lock (hexadecimal) | `'A1B2...'` |
+ *
+ * The swap lock and the current chain height are read from network.
+ */
+export class RefundSwap extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'secret',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'RefundSwap'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':swap-refund:' + this.identifier.id
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get transferDescriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':transfer:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `RefundSwap` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const secret = this.context.getInput('secret', '').toUpperCase()
+
+    // find swap lock
+    const lock = this.swapLocks.find(l => l.secret === secret)
+
+    if (undefined === lock) {
+      throw new FailureInvalidArgument('Swap lock "' + secret + '" does not exist.')
+    }
+
+    // expired locks are returned to the target account by the network
+    if (!lock.isRefundable(this.height)) {
+      throw new FailureInvalidArgument('Swap lock "' + lock.secret + '" is claimed, refunded or not expired.')
+    }
+
+    // find partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(lock.partition)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + lock.partition.plain() + '" does not exist.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + lock.secret), // use secret
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: Transfer to partition account
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      the_partition.account.address, // mosaics will be owned by partition account
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(lock.amount),
+        ),
+      ],
+      PlainMessage.create(this.transferDescriptor + ':' + the_partition.name), // use partition name
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **target** account
+    signers.push(this.target)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
@@ -0,0 +1,130 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { UnlockBalance } from './UnlockBalance'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { VestingSchedule } from '../models/VestingSchedule'
+
+/**
+ * @class NIP13.ReleaseVested
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for unlocking vested balances of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account (gets unlocked) | `new PublicAccount(...)` |
+ * | locker | Token locker account (sends back shares) | `new PublicAccount(...)` |
+ * | schedule | (Optional) Vesting schedule of locked shares (must match metadata) | `new VestingSchedule(...)` |
+ * | balance | (Optional) Number of shares owned by the locker account (must match the network) | `100` |
+ * | at | (Optional) Block height or timestamp (depending on schedule unit), defaults to the current one | `123456` |
+ */
+export class ReleaseVested extends UnlockBalance {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+    'locker',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ReleaseVested'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':release:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `ReleaseVested` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // set `UnlockBalance` command arguments
+    this.context.setInput('amount', this.getReleasableAmount())
+
+    // @see UnlockBalance.transactions()
+    return super.transactions
+  }
+  // end-region abstract methods
+
+  /**
+   * Get the number of vested shares that were not released yet.
+   *
+   * @return {number}
+   */
+  public getReleasableAmount(): number {
+    // read external arguments
+    const locker = this.context.getInput('locker', new PublicAccount())
+    const input = this.context.getInput<VestingSchedule | null>('schedule', null)
+    const inputBalance = this.context.getInput<number | null>('balance', null)
+    const inputAt = this.context.getInput<number | null>('at', null)
+
+    // vesting schedules are read from the locker account metadata
+    const schedule = this.vestingSchedules[locker.address.plain()]
+    if (undefined === schedule) {
+      throw new FailureInvalidArgument('Locker "' + locker.address.plain() + '" has no vesting schedule.')
+    }
+
+    if (null !== input && input.toMetadata() !== schedule.toMetadata()) {
+      throw new FailureInvalidArgument('Argument "schedule" does not match the stored vesting schedule.')
+    }
+
+    // locked shares are read from the locker account balance
+    const balance = this.getBalance(locker, this.identifier.toMosaicId())
+    if (null !== inputBalance && inputBalance !== balance) {
+      throw new FailureInvalidArgument('Argument "balance" does not match the locker balance of ' + balance + '.')
+    }
+
+    // positions cannot exceed the current chain height or chain time
+    const current = 'timestamp' === schedule.unit ? this.timestamp : this.height.compact()
+    if (null !== inputAt && inputAt > current) {
+      throw new FailureInvalidArgument('Argument "at" cannot exceed the current ' + schedule.unit + ' of ' + current + '.')
+    }
+
+    const at = null !== inputAt ? inputAt : current
+
+    // shares that are not locked anymore were released before
+    const released = schedule.amount - balance
+    const releasable = schedule.getVestedAmount(at) - released
+
+    if (releasable <= 0) {
+      throw new FailureInvalidArgument('No vested shares to release at ' + schedule.unit + ' ' + at + '.')
+    }
+
+    return releasable
+  }
+}
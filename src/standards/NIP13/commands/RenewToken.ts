@@ -0,0 +1,150 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  InnerTransaction,
+  MosaicDefinitionTransaction,
+  MosaicFlags,
+  NamespaceRegistrationTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+
+/**
+ * @class NIP13.RenewToken
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for renewing the namespace and mosaic of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | name | Name of the security token | `"NIP13 Example"` |
+ * | duration | Number of blocks to extend the root namespace rental with | `2010240` |
+ * | mosaicDuration | (Optional) Number of blocks to extend the mosaic duration with | `2010240` |
+ */
+export class RenewToken extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'name',
+    'duration',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'RenewToken'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':renew:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `RenewToken` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const fullName = this.context.getInput('name', '')
+    const duration = this.context.getInput('duration', 0)
+    const mosaicDuration = this.context.getInput('mosaicDuration', duration)
+
+    if (duration <= 0) {
+      throw new FailureInvalidArgument('Argument "duration" must be greater than 0.')
+    }
+
+    if (mosaicDuration < 0) {
+      throw new FailureInvalidArgument('Argument "mosaicDuration" must not be negative.')
+    }
+
+    // eternal mosaics (duration 0) cannot be renewed
+    const isEternal = undefined !== this.mosaicInfo && this.mosaicInfo.duration.compact() === 0
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + fullName + ':' + duration),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: NamespaceRegistrationTransaction
+    // :note: registering an owned root namespace extends its rental
+    transactions.push(NamespaceRegistrationTransaction.createRootNamespace(
+      this.context.parameters.deadline,
+      fullName.split('.')[0], // root namespace
+      UInt64.fromUint(duration),
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    ))
+
+    // Transaction 02 is issued by **target** account (multisig)
+    signers.push(this.target)
+
+    if (!isEternal && mosaicDuration > 0) {
+      // Transaction 03: MosaicDefinitionTransaction
+      // :note: flags and divisibility are applied with XOR, the duration is added.
+      transactions.push(MosaicDefinitionTransaction.create(
+        this.context.parameters.deadline,
+        this.identifier.nonce,
+        this.identifier.toMosaicId(),
+        MosaicFlags.create(false, false, false), // unchanged flags
+        0, // unchanged divisibility
+        UInt64.fromUint(mosaicDuration),
+        this.context.network.networkType,
+        undefined, // maxFee 0 for inner
+      ))
+
+      // Transaction 03 is issued by **target** account (multisig)
+      signers.push(this.target)
+    }
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
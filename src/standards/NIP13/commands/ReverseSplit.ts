@@ -0,0 +1,96 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// internal dependencies
+import { StockSplit } from './StockSplit'
+import { FractionalPolicy } from '../models/FractionalPolicy'
+
+/**
+ * @class NIP13.ReverseSplit
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for consolidating shares of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | ratio | Number of shares before the split for each share (1-for-N) | `10` |
+ * | policy | (Optional) Fractional shares policy, defaults to cash-in-lieu | `FractionalPolicy.RoundUp` |
+ */
+export class ReverseSplit extends StockSplit {
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'ReverseSplit'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':reverse-split:' + this.identifier.id
+  }
+  // end-region abstract methods
+
+  /**
+   * Get the number of shares after the split for a balance of `before`
+   * shares. Fractional shares are handled according to `policy`.
+   *
+   * @see {StockSplit.getBalanceAfterSplit}
+   * @param   {number}            before
+   * @param   {number}            ratio
+   * @param   {FractionalPolicy}  policy
+   * @return  {number}
+   */
+  protected getBalanceAfterSplit(
+    before: number,
+    ratio: number,
+    policy: FractionalPolicy,
+  ): number {
+    if (FractionalPolicy.RoundUp === policy) {
+      return Math.ceil(before / ratio)
+    }
+    else if (FractionalPolicy.RoundHalfUp === policy) {
+      return Math.floor((2 * before + ratio) / (2 * ratio))
+    }
+
+    // cash-in-lieu: fractions are paid out
+    return Math.floor(before / ratio)
+  }
+
+  /**
+   * Get the fractional share that was removed by rounding.
+   *
+   * @see {StockSplit.getFraction}
+   * @param   {number}  before
+   * @param   {number}  after
+   * @param   {number}  ratio
+   * @return  {number}
+   */
+  protected getFraction(
+    before: number,
+    after: number,
+    ratio: number,
+  ): number {
+    return (before - after * ratio) / ratio
+  }
+}
@@ -24,6 +24,9 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownOperator } from '../errors/FailureUnknownOperator'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { QuorumPolicy } from '../models/QuorumPolicy'
 
 /**
  * @class NIP13.RevokeIssuerPower
@@ -36,6 +39,7 @@ import { AbstractCommand } from './AbstractCommand'
  * | Argument | Description | Example |
  * | --- | --- | --- |
  * | `operator` | Operator account that will be removed | `new PublicAccount(...)` |
+ * | `policy` | (Optional) Operators quorum policy, defaults to the current policy | `new QuorumPolicy(2, 2)` |
  */
 export class RevokeIssuerPower extends AbstractCommand {
   /**
@@ -72,17 +76,28 @@ export class RevokeIssuerPower extends AbstractCommand {
   protected get transactions(): Transaction[] {
     // read external arguments
     const operator = this.context.getInput('operator', new PublicAccount())
+    const policy = this.context.getInput<QuorumPolicy>('policy', this.getQuorumPolicy())
 
     // find operator
     const the_operator = this.operators.find(
       o => o.address.equals(operator.address)
     )
 
-    // `RevokeIssuerPower` should only be executed to add operators
-    if (undefined !== the_operator) {
-      return []
+    // `RevokeIssuerPower` should only be executed to remove operators
+    if (undefined === the_operator) {
+      throw new FailureUnknownOperator('Operator "' + operator.address.plain() + '" does not exist.')
     }
 
+    // the quorum policy is applied to the new number of operators
+    const count = this.operators.length
+    if (!policy.isValid(count - 1)) {
+      throw new FailureInvalidArgument('Quorum policy cannot be applied to ' + (count - 1) + ' operator(s).')
+    }
+
+    // the deltas are relative to the current quorum of the target account
+    const deltas = this.getQuorumDeltas(policy, count - 1)
+    const partitionDeltas = this.getPartitionQuorumDeltas(policy, count - 1)
+
     // prepare output
     const transactions: InnerTransaction[] = []
     const signers: PublicAccount[] = []
@@ -103,8 +118,8 @@ export class RevokeIssuerPower extends AbstractCommand {
     // Transaction 02: MultisigAccountModificationTransaction
     transactions.push(MultisigAccountModificationTransaction.create(
       this.context.parameters.deadline,
-      1, // removing 1 operator
-      1, // removing 1 operator
+      deltas.minApproval, // relative to the current quorum
+      deltas.minRemoval, // relative to the current quorum
       [],
       [operator],
       this.context.network.networkType,
@@ -114,6 +129,15 @@ export class RevokeIssuerPower extends AbstractCommand {
     // Transaction 02 is issued by **target** account
     signers.push(this.target)
 
+    // Transaction 02.1: AccountMetadataTransaction updating `Quorum_Policy`
+    const metadata = this.createQuorumPolicyMetadata(policy)
+    if (undefined !== metadata) {
+      transactions.push(metadata)
+
+      // Transaction 02.1 is issued by **target** account
+      signers.push(this.target)
+    }
+
     // For each partition, the operator must be made a cosignatory
     for (let i = 0, m = this.partitions.length; i < m; i++) {
       const the_partition = this.partitions[i]
@@ -121,8 +145,8 @@ export class RevokeIssuerPower extends AbstractCommand {
       // Transaction 03: MultisigAccountModificationTransaction
       transactions.push(MultisigAccountModificationTransaction.create(
         this.context.parameters.deadline,
-        1, // removing 1 operator
-        1, // removing 1 operator
+        partitionDeltas.minApproval, // relative to the partition quorum
+        partitionDeltas.minRemoval, // relative to the partition quorum
         [],
         [operator],
         this.context.network.networkType,
@@ -0,0 +1,241 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  EmptyMessage,
+  InnerTransaction,
+  Mosaic,
+  MosaicId,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+
+/**
+ * @class NIP13.SettleTrade
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for settling trades (DvP) of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | seller | Seller token holder partition account (delivers shares) | `new PublicAccount(...)` |
+ * | buyer | Buyer token holder partition account (receives shares) | `new PublicAccount(...)` |
+ * | amount | Number of shares to be delivered | `1` |
+ * | price | Payment amount (absolute amount) paid by the buyer partition owner | `1000000` |
+ * | mosaicId | (Optional) Payment mosaic, defaults to the network fee mosaic | `new MosaicId(...)` |
+ *
+ * The payment mosaic balance of the buyer partition owner is read from network. Owners
+ * of the seller and buyer partitions are required signers of the settlement contract.
+ */
+export class SettleTrade extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'seller', // must be a PARTITION ACCOUNT
+    'buyer', // must be a PARTITION ACCOUNT
+    'amount',
+    'price',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'SettleTrade'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':settle:' + this.identifier.id
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get transferDescriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':transfer:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `SettleTrade` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const seller = this.context.getInput('seller', new PublicAccount())
+    const buyer = this.context.getInput('buyer', new PublicAccount())
+    const amount = this.context.getInput('amount', 0)
+    const price = this.context.getInput('price', 0)
+    const mosaicId = this.context.getInput<MosaicId>('mosaicId', this.context.network.feeMosaicId)
+
+    // find partitions
+    const seller_partition = this.partitions.find(
+      p => p.account.address.equals(seller.address)
+    )
+    const buyer_partition = this.partitions.find(
+      p => p.account.address.equals(buyer.address)
+    )
+
+    if (undefined === seller_partition) {
+      throw new FailureUnknownPartition('Seller partition "' + seller.address.plain() + '" does not exist.')
+    }
+
+    if (undefined === buyer_partition) {
+      throw new FailureUnknownPartition('Buyer partition "' + buyer.address.plain() + '" does not exist.')
+    }
+
+    if (seller_partition.account.address.equals(buyer_partition.account.address)) {
+      throw new FailureInvalidArgument('Seller and buyer partitions must be different.')
+    }
+
+    if (amount <= 0 || price <= 0) {
+      throw new FailureInvalidArgument('Settlement amount and price must be greater than 0.')
+    }
+
+    // 'SettleTrade' is only possible with sufficient balances
+    if (amount > seller_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + seller_partition.name + '" has insufficient balance.')
+    }
+
+    if (price > this.getBalance(buyer_partition.owner, mosaicId)) {
+      throw new FailureInsufficientBalance('Owner of partition "' + buyer_partition.name + '" has insufficient funds.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      seller_partition.account.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + buyer_partition.name),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: Send back the amount to the target account
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address, // back to target account (non-transferrable)
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(amount),
+        ),
+      ],
+      EmptyMessage, // This transaction does not need a marker
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 02 is issued by **seller** partition (cosigned by seller)
+    signers.push(seller_partition.account)
+
+    // Transaction 03: Add ownership transfer transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      buyer_partition.account.address, // new recipient is the buyer partition account
+      [
+        new Mosaic(
+          this.identifier.toMosaicId(),
+          UInt64.fromUint(amount),
+        ),
+      ],
+      PlainMessage.create(this.transferDescriptor + ':' + buyer_partition.name), // use buyer partition name
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 03 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 04: Payment transfer to the seller partition owner
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      seller_partition.owner.address,
+      [
+        new Mosaic(
+          mosaicId,
+          UInt64.fromUint(price),
+        ),
+      ],
+      PlainMessage.create(this.descriptor + ':' + seller_partition.name),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 04 is issued by **buyer** partition owner
+    signers.push(buyer_partition.owner)
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+
+  /**
+   * Gets the accounts that must sign the settlement contract. The
+   * owners of seller and buyer partitions approve the trade.
+   *
+   * @see {AbstractCommand.getRequiredSigners}
+   * @param   {Transaction[]}   transactions
+   * @return  {PublicAccount[]}
+   */
+  public getRequiredSigners(
+    transactions: Transaction[] = this.transactions,
+  ): PublicAccount[] {
+    const signers = super.getRequiredSigners(transactions)
+    const accounts = [ 'seller', 'buyer' ].map(arg => this.context.getInput(arg, new PublicAccount()))
+
+    // add partition owners of seller and buyer
+    this.partitions.filter(
+      p => accounts.some(a => a.address.equals(p.account.address))
+    ).forEach(p => {
+      if (!signers.some(s => s.publicKey === p.owner.publicKey)) {
+        signers.push(p.owner)
+      }
+    })
+
+    return signers
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  FailureOperationForbidden,
+  TokenPartition,
+} from '../../../../index'
+import { CreatePartition } from './CreatePartition'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FailureDuplicatePartition } from '../errors/FailureDuplicatePartition'
+import { FailurePartitionCollision } from '../errors/FailurePartitionCollision'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
+
+/**
+ * @class NIP13.SplitPartition
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for splitting token holder partitions of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | partition | Token holder partition account (gets split) | `new PublicAccount(...)` |
+ * | name | Name of the new token holder partition | `"NIP13 Example"` |
+ * | amount | Number of shares to be moved to the new partition | `1` |
+ * | nonce | (Optional) Derivation nonce of the partition account (defaults to `0`) | `1` |
+ *
+ * The new partition is owned by the owner of the split partition and its
+ * account is derived from the owner, `name` and `nonce`.
+ */
+export class SplitPartition extends CreatePartition {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'partition',
+    'name',
+    'amount',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'SplitPartition'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get splitDescriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':split-partition:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `SplitPartition` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    // read external arguments
+    const partition = this.context.getInput('partition', new PublicAccount())
+    const name = this.context.getInput('name', 'default')
+    const amount = this.context.getInput('amount', 0)
+    const nonce = this.context.getInput('nonce', 0)
+
+    // find partition
+    const the_partition = this.partitions.find(
+      p => p.account.address.equals(partition.address)
+    )
+
+    if (undefined === the_partition) {
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
+    }
+
+    if (undefined === this.accountable) {
+      throw new FailureOperationForbidden('No key provider available to derive the partition account.')
+    }
+
+    // the new partition is owned by the same token holder
+    const holder = the_partition.owner
+    const account = this.accountable.getPartition(holder, name, nonce).publicAccount
+    const new_partition = this.partitions.find(
+      p => p.account.address.equals(account.address)
+    )
+
+    // derived partition accounts may collide for different owners or names
+    if (undefined !== new_partition && (
+      new_partition.name !== name || !new_partition.owner.address.equals(holder.address)
+    )) {
+      throw new FailurePartitionCollision(
+        'Partition account is already used by partition "' + new_partition.name + '" of a different owner or name.'
+      )
+    }
+
+    if (undefined !== new_partition) {
+      throw new FailureDuplicatePartition('Partition "' + new_partition.name + '" already exists.')
+    }
+
+    if (amount <= 0) {
+      throw new FailureInvalidArgument('Amount must be greater than 0.')
+    }
+
+    if (amount > the_partition.amount) {
+      throw new FailureInsufficientBalance('Partition "' + the_partition.name + '" has insufficient balance.')
+    }
+
+    // Transaction 01 to 06 (07 with nonce): @see CreatePartition.createPartition()
+    const creation = this.createPartition(name, account, holder, nonce)
+
+    // Transaction 07 to 09: @see AbstractCommand.createBalanceMove()
+    const move = this.createBalanceMove(
+      the_partition,
+      new TokenPartition(name, holder, account, 0, nonce),
+      amount,
+      this.splitDescriptor,
+    )
+
+    // return transactions issued by assigned signer
+    const signers = creation.signers.concat(move.signers)
+    return creation.transactions.concat(move.transactions).map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+}
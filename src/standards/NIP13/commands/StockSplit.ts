@@ -0,0 +1,239 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  EmptyMessage,
+  InnerTransaction,
+  Mosaic,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  PlainMessage,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { AbstractCommand } from './AbstractCommand'
+import { FailureInvalidArgument } from '../errors/FailureInvalidArgument'
+import { FractionalPolicy } from '../models/FractionalPolicy'
+import { SplitReport } from '../models/SplitReport'
+import { SplitReportEntry } from '../models/SplitReportEntry'
+
+/**
+ * @class NIP13.StockSplit
+ * @package NIP13 Token Commands
+ * @since v0.5.3
+ * @description Class that describes a token command for splitting shares of NIP13 compliant tokens.
+ * @summary
+ * This token command accepts the following arguments:
+ *
+ * | Argument | Description | Example |
+ * | --- | --- | --- |
+ * | ratio | Number of shares after the split for each share (N-for-1) | `2` |
+ * | policy | (Optional) Fractional shares policy, defaults to cash-in-lieu | `FractionalPolicy.RoundUp` |
+ *
+ * Splits are refused while shares are locked outside of partitions and of the target account
+ * (e.g. with `LockBalance`, vesting schedules or open swap locks).
+ */
+export class StockSplit extends AbstractCommand {
+  /**
+   * @description List of **required** arguments for this token command.
+   */
+  public arguments: string[] = [
+    'ratio',
+  ]
+
+  // region abstract methods
+  /**
+   * @description Getter for the command name.
+   * @see {BaseCommand.name}
+   **/
+  public get name(): string {
+    return 'StockSplit'
+  }
+
+  /**
+   * Getter for the command descriptor.
+   *
+   * @return {string}
+   **/
+  public get descriptor(): string {
+    return 'NIP13(v' + this.context.revision + ')' + ':split:' + this.identifier.id
+  }
+
+  /**
+   * @description Builds the inner transactions necessary for the
+   *              execution of a `StockSplit` command.
+   * @see {AbstractCommand.transactions}
+   * @return {Transaction[]} Aggregate bonded transaction
+   **/
+  protected get transactions(): Transaction[] {
+    const report = this.getReport()
+    const delta = report.totalAfter - report.totalBefore
+
+    // locked shares are neither split nor redeemed
+    const supply = undefined !== this.mosaicInfo ? this.mosaicInfo.supply.compact() : report.totalBefore
+    if (supply !== report.totalBefore) {
+      throw new FailureInvalidArgument('Cannot split while ' + (supply - report.totalBefore) + ' share(s) are locked.')
+    }
+
+    // prepare output
+    const transactions: InnerTransaction[] = []
+    const signers: PublicAccount[] = []
+
+    // Transaction 01: Add execution proof transaction
+    transactions.push(TransferTransaction.create(
+      this.context.parameters.deadline,
+      this.target.address,
+      [],
+      PlainMessage.create(this.descriptor + ':' + report.ratio + ':' + report.policy),
+      this.context.network.networkType,
+      undefined,
+    ))
+
+    // Transaction 01 is issued by **target** account
+    signers.push(this.target)
+
+    // Transaction 02: Increase supply before issuing shares
+    if (delta > 0) {
+      transactions.push(this.createSupplyChange(MosaicSupplyChangeAction.Increase, delta))
+
+      // Transaction 02 is issued by **target** account (multisig)
+      signers.push(this.target)
+    }
+
+    // Transaction 03: Rebalance each partition account
+    report.entries.filter(e => e.after !== e.before).forEach(entry => {
+      const isIssued = entry.after > entry.before
+      transactions.push(TransferTransaction.create(
+        this.context.parameters.deadline,
+        isIssued ? entry.account.address : this.target.address,
+        [
+          new Mosaic(
+            this.identifier.toMosaicId(),
+            UInt64.fromUint(Math.abs(entry.after - entry.before)),
+          ),
+        ],
+        isIssued ? PlainMessage.create(this.descriptor + ':' + entry.name) : EmptyMessage,
+        this.context.network.networkType,
+        undefined,
+      ))
+
+      // Transaction 03 is issued by **target** or **partition** account
+      signers.push(isIssued ? this.target : entry.account)
+    })
+
+    // Transaction 04: Decrease supply after redeeming shares
+    if (delta < 0) {
+      transactions.push(this.createSupplyChange(MosaicSupplyChangeAction.Decrease, -delta))
+
+      // Transaction 04 is issued by **target** account (multisig)
+      signers.push(this.target)
+    }
+
+    // return transactions issued by assigned signer
+    return transactions.map(
+      (transaction, i) => transaction.toAggregate(signers[i])
+    )
+  }
+  // end-region abstract methods
+
+  /**
+   * Compute the balances of token holder partitions before and after
+   * the split. Shares owned by the target account are split as well.
+   *
+   * @return {SplitReport}
+   */
+  public getReport(): SplitReport {
+    // read external arguments
+    const ratio = this.context.getInput('ratio', 0)
+    const policy = this.context.getInput('policy', FractionalPolicy.CashInLieu)
+
+    if (ratio < 2 || !Number.isSafeInteger(ratio)) {
+      throw new FailureInvalidArgument('Argument "ratio" must be an integer greater than 1.')
+    }
+
+    if (!Object.values(FractionalPolicy).includes(policy)) {
+      throw new FailureInvalidArgument('Argument "policy" must be one of: ' + Object.values(FractionalPolicy).join(', '))
+    }
+
+    const entries = this.partitions.map(p => {
+      const after = this.getBalanceAfterSplit(p.amount, ratio, policy)
+      return new SplitReportEntry(p.name, p.account, p.amount, after, this.getFraction(p.amount, after, ratio))
+    })
+
+    // shares owned by the target account are never rounded up
+    const treasury = this.getBalance(this.target, this.identifier.toMosaicId())
+    const treasuryAfter = this.getBalanceAfterSplit(treasury, ratio, FractionalPolicy.CashInLieu)
+
+    return new SplitReport(this.name, ratio, policy, entries, treasury, treasuryAfter)
+  }
+
+  /**
+   * Get the number of shares after the split for a balance of `before` shares.
+   *
+   * @param   {number}            before
+   * @param   {number}            ratio
+   * @param   {FractionalPolicy}  policy
+   * @return  {number}
+   */
+  protected getBalanceAfterSplit(
+    before: number,
+    ratio: number,
+    policy: FractionalPolicy,
+  ): number {
+    // N-for-1 splits never produce fractional shares
+    return before * ratio
+  }
+
+  /**
+   * Get the fractional share that was removed by rounding.
+   *
+   * @param   {number}  before
+   * @param   {number}  after
+   * @param   {number}  ratio
+   * @return  {number}
+   */
+  protected getFraction(
+    before: number,
+    after: number,
+    ratio: number,
+  ): number {
+    return before * ratio - after
+  }
+
+  /**
+   * Create a supply change transaction for the token mosaic.
+   *
+   * @param   {MosaicSupplyChangeAction}  action
+   * @param   {number}                    amount
+   * @return  {MosaicSupplyChangeTransaction}
+   */
+  protected createSupplyChange(
+    action: MosaicSupplyChangeAction,
+    amount: number,
+  ): MosaicSupplyChangeTransaction {
+    return MosaicSupplyChangeTransaction.create(
+      this.context.parameters.deadline,
+      this.identifier.toMosaicId(),
+      action,
+      UInt64.fromUint(amount),
+      this.context.network.networkType,
+      undefined, // maxFee 0 for inner
+    )
+  }
+}
@@ -26,6 +26,8 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
+import { FailureInsufficientBalance } from '../errors/FailureInsufficientBalance'
 
 /**
  * @class NIP13.TransferOwnership
@@ -87,8 +89,7 @@ export class TransferOwnership extends AbstractCommand {
     )
 
     if (undefined === the_partition) {
-      // Error: partition does not exist
-      return []
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
     }
 
     // prepare output
@@ -124,8 +125,11 @@ export class TransferOwnership extends AbstractCommand {
       )
 
       if (sender_partition === undefined) {
-        // Error: sender partition does not exist
-        return []
+        throw new FailureUnknownPartition('Sender partition "' + sender.address.plain() + '" does not exist.')
+      }
+
+      if (amount > sender_partition.amount) {
+        throw new FailureInsufficientBalance('Partition "' + sender_partition.name + '" has insufficient balance.')
       }
 
       // Transaction 2.01: First send back the amount to the target account
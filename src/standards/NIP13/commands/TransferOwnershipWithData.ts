@@ -23,6 +23,7 @@ import {
 
 // internal dependencies
 import { TransferOwnership } from './TransferOwnership'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
 
 /**
  * @class NIP13.TransferOwnershipWithData
@@ -88,8 +89,7 @@ export class TransferOwnershipWithData extends TransferOwnership {
     )
 
     if (undefined === the_partition) {
-      // Error: partition does not exist
-      return []
+      throw new FailureUnknownPartition('Recipient partition "' + recipient.address.plain() + '" does not exist.')
     }
 
     // prepare output
@@ -25,6 +25,7 @@ import {
 
 // internal dependencies
 import { AbstractCommand } from './AbstractCommand'
+import { FailureUnknownPartition } from '../errors/FailureUnknownPartition'
 
 /**
  * @class NIP13.UnlockBalance
@@ -96,8 +97,7 @@ export class UnlockBalance extends AbstractCommand {
 
     // 'UnlockBalance' is only possible for existing partitions
     if (undefined === the_partition) {
-      // the partition doesn't exist
-      return []
+      throw new FailureUnknownPartition('Partition "' + partition.address.plain() + '" does not exist.')
     }
 
     // prepare output
@@ -48,6 +48,7 @@ export class Accountable {
    * Construct an `Accountable` object around \a bip39 mnemonic pass phrase.
    *
    * @param {MnemonicPassPhrase} bip39 
+   * @param {number}             tokenIndex (Optional) Defaults to the first token (`0`).
    */
   public constructor(
     /**
@@ -59,6 +60,11 @@ export class Accountable {
      * @description The BIP39 mnemonic pass phrase used with said token.
      */
     protected readonly bip39: MnemonicPassPhrase,
+
+    /**
+     * @description The index of said token for the BIP39 mnemonic pass phrase.
+     */
+    public readonly tokenIndex: number = 0,
   ) {
     this.keyProvider = new Wallet(
       ExtendedKey.createFromSeed(
@@ -97,7 +103,35 @@ export class Accountable {
    * @return {Account}
    */
   public getTarget(): Account {
-    return this.getAccount(Derivation.PATH_NIP13)
+    return this.getAccount(this.getPathForToken())
+  }
+
+  /**
+   * Derive the **target** accounts of the first \a size tokens
+   * of the BIP39 mnemonic pass phrase.
+   *
+   * @param   {number}  size
+   * @return  {Account[]}
+   */
+  public getTargets(
+    size: number = 1,
+  ): Account[] {
+    const targets: Account[] = []
+    for (let i = 0; i < size; i ++) {
+      targets.push(this.getAccount(Derivation.HDService.getPathForToken(i)))
+    }
+
+    return targets
+  }
+
+  /**
+   * Get the BIP44 path for the **target** account of said token
+   *
+   * @internal Token indexes use the ACCOUNT path level.
+   * @return  {string}
+   */
+  public getPathForToken(): string {
+    return Derivation.HDService.getPathForToken(this.tokenIndex)
   }
 
   /**
@@ -111,7 +145,7 @@ export class Accountable {
     at: number = 1
   ): Account {
     // prepare derivation
-    const start = Derivation.PATH_NIP13
+    const start = this.getPathForToken()
     const level = Derivation.DerivationPathLevels.Remote
 
     // derive operator
@@ -124,15 +158,16 @@ export class Accountable {
    *
    * @internal Partition account derivation paths use the ADDRESS path level.
    * @param   {PublicAccount}  owner
-   * @param   {number}         at
    * @param   {string}         name
+   * @param   {number}         nonce  (Optional) Collision resolution step, defaults to 0.
    * @return  {Account}
    */
   public getPartition(
     owner: PublicAccount,
     name: string = 'default',
+    nonce: number = 0,
   ): Account {
-    const path = this.getPathForPartition(owner, name)
+    const path = this.getPathForPartition(owner, name, nonce)
     return this.getAccount(path)
   }
 
@@ -141,20 +176,23 @@ export class Accountable {
    *
    * @internal Partition account derivation paths use the ADDRESS path level.
    * @param   {PublicAccount} owner 
-   * @param   {number}         at
+   * @param   {string}        name
+   * @param   {number}        nonce  (Optional) Collision resolution step, defaults to 0.
    * @return  {string}
    */
   public getPathForPartition(
     owner: PublicAccount,
     name: string = 'default',
+    nonce: number = 0,
   ): string {
     // prepare derivation
-    const start = Derivation.PATH_NIP13
+    const start = this.getPathForToken()
     const level = Derivation.DerivationPathLevels.Address
 
     // prepare deterministic
     const hash = new Uint8Array(64)
-    const data = name + '-' + owner.address.plain()
+    // :note: nonce is appended only to resolve collisions (@see TokenStandard.resolvePartition)
+    const data = name + '-' + owner.address.plain() + (nonce > 0 ? '-' + nonce : '')
     SHA3Hasher.func(hash, Convert.utf8ToUint8(data), 64)
 
     // 3 right-most bytes for partition id
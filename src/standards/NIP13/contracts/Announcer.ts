@@ -0,0 +1,47 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { SignedTransaction } from 'symbol-sdk'
+
+/**
+ * @interface Announcer
+ * @package NIP13/contracts
+ * @since v0.5.3
+ * @description Interface that describes transaction announcers. Announcers
+ *              are used to broadcast signed token command contracts.
+ */
+export interface Announcer {
+  /**
+   * Announce a signed transaction. The returned promise MUST
+   * resolve only once the transaction is confirmed.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}   The transaction hash
+   */
+  announce(
+    signedTransaction: SignedTransaction,
+  ): Promise<string>
+
+  /**
+   * Announce a signed aggregate bonded transaction. The returned
+   * promise MUST resolve once the aggregate is partially added.
+   *
+   * @param   {SignedTransaction} signedTransaction
+   * @return  {Promise<string>}   The transaction hash
+   */
+  announceAggregateBonded(
+    signedTransaction: SignedTransaction,
+  ): Promise<string>
+}
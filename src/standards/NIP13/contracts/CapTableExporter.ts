@@ -0,0 +1,53 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+
+/**
+ * @interface CapTableExporter
+ * @package NIP13/contracts
+ * @since v0.5.3
+ * @description Interface that describes cap table exporters. Exporters are
+ *              used to produce holder register documents (e.g. CSV files).
+ */
+export interface CapTableExporter {
+  /**
+   * @description The document format (e.g. "csv")
+   */
+  readonly format: string
+
+  /**
+   * Export the holder register of a token.
+   *
+   * @param   {TokenIdentifier}                 tokenId
+   * @param   {TokenPartition[]}                partitions
+   * @param   {SecuritiesMetadata|undefined}    metadata
+   * @param   {UInt64}                          height      The export block height.
+   * @return  {string}
+   */
+  export(
+    tokenId: TokenIdentifier,
+    partitions: TokenPartition[],
+    metadata: SecuritiesMetadata | undefined,
+    height: UInt64,
+  ): string
+}
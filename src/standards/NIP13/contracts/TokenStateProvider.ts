@@ -0,0 +1,268 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  Mosaic,
+  MosaicInfo,
+  MultisigAccountInfo,
+  PublicAccount,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Notification,
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+import { SecuritiesRestrictions } from '../models/SecuritiesRestrictions'
+import { PartitionMetadata } from '../models/PartitionMetadata'
+import { SwapLock } from '../models/SwapLock'
+import { RoleAssignment } from '../models/RoleAssignment'
+import { TokenExpiry } from '../models/TokenExpiry'
+import { CapTableSnapshot } from '../models/CapTableSnapshot'
+import { VestingSchedule } from '../models/VestingSchedule'
+import { QuorumPolicy } from '../models/QuorumPolicy'
+
+/**
+ * @interface TokenStateProvider
+ * @package NIP13/contracts
+ * @since v0.5.3
+ * @description Interface that describes providers of NIP13 token state. A state
+ *              provider is used to synchronize token standards and commands.
+ */
+export interface TokenStateProvider {
+  /**
+   * Read the current chain height.
+   *
+   * @return  {Promise<UInt64>}
+   */
+  getChainHeight(): Promise<UInt64>
+
+  /**
+   * Read the chain time at block `height` (timestamp in milliseconds).
+   *
+   * @param   {UInt64}          height      The block height.
+   * @return  {Promise<number>}
+   */
+  getChainTimestamp(
+    height: UInt64,
+  ): Promise<number>
+
+  /**
+   * Read the list of operators of a token.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<PublicAccount[]>}
+   */
+  getOperators(
+    target: PublicAccount,
+  ): Promise<PublicAccount[]>
+
+  /**
+   * Read the multisig account information (e.g. `minApproval`
+   * and `minRemoval`) of the target account of a token.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<MultisigAccountInfo|undefined>}
+   */
+  getMultisigInfo(
+    target: PublicAccount,
+  ): Promise<MultisigAccountInfo | undefined>
+
+  /**
+   * Read the operators quorum policy that is attached to the
+   * `Quorum_Policy` metadata of the target account.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<QuorumPolicy|undefined>}
+   */
+  getQuorumPolicy(
+    target: PublicAccount,
+  ): Promise<QuorumPolicy | undefined>
+
+  /**
+   * Read the mosaic information of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<MosaicInfo|undefined>}
+   */
+  getMosaicInfo(
+    tokenId: TokenIdentifier,
+  ): Promise<MosaicInfo | undefined>
+
+  /**
+   * Read the token holder partitions of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {PublicAccount[]} operators   The list of operators of said token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @return  {Promise<TokenPartition[]>}
+   */
+  getPartitions(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    operators: PublicAccount[],
+    descriptor: string,
+  ): Promise<TokenPartition[]>
+
+  /**
+   * Read the token holder partitions of a token that were closed.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {PublicAccount[]} operators   The list of operators of said token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @return  {Promise<TokenPartition[]>}
+   */
+  getClosedPartitions(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    operators: PublicAccount[],
+    descriptor: string,
+  ): Promise<TokenPartition[]>
+
+  /**
+   * Read the `NAME`, `OWNER` and `NONCE` metadata of a partition account.
+   *
+   * @param   {PublicAccount}   account     The partition account.
+   * @return  {Promise<PartitionMetadata|undefined>}
+   */
+  getPartitionMetadata(
+    account: PublicAccount,
+  ): Promise<PartitionMetadata | undefined>
+
+  /**
+   * Read the mosaic balances of accounts (e.g. token holders). Accounts
+   * that are unknown to the provider are omitted from the result.
+   *
+   * @param   {PublicAccount[]} accounts    The accounts of which balances are read.
+   * @return  {Promise<{[address: string]: Mosaic[]}>}
+   */
+  getBalances(
+    accounts: PublicAccount[],
+  ): Promise<{[address: string]: Mosaic[]}>
+
+  /**
+   * Read the swap locks of a token, including their claim and refund status.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<SwapLock[]>}
+   */
+  getSwapLocks(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<SwapLock[]>
+
+  /**
+   * Read the user roles of a token (`User_Role` address restrictions).
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<RoleAssignment[]>}
+   */
+  getRoles(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<RoleAssignment[]>
+
+  /**
+   * Read the notifications issued by the target account of a token.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @param   {Address}         recipient   (Optional) The recipient of notifications.
+   * @return  {Promise<Notification[]>}
+   */
+  getNotifications(
+    target: PublicAccount,
+    descriptor: string,
+    recipient?: Address,
+  ): Promise<Notification[]>
+
+  /**
+   * Read the expiry of the root namespace and of the mosaic of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {string}          name        The token namespace name (e.g. "company.shares").
+   * @return  {Promise<TokenExpiry>}
+   */
+  getExpiry(
+    tokenId: TokenIdentifier,
+    name: string,
+  ): Promise<TokenExpiry>
+
+  /**
+   * Read the balances of token holder partitions and of the target account at block `height`.
+   *
+   * @param   {TokenIdentifier}   tokenId     The token identifier.
+   * @param   {PublicAccount}     target      The deterministic account that represents the token.
+   * @param   {TokenPartition[]}  partitions  The token holder partitions.
+   * @param   {UInt64}            height      The snapshot block height.
+   * @return  {Promise<CapTableSnapshot>}
+   */
+  getSnapshot(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    partitions: TokenPartition[],
+    height: UInt64,
+  ): Promise<CapTableSnapshot>
+
+  /**
+   * Read the token locker accounts that hold vesting schedules of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<PublicAccount[]>}
+   */
+  getLockers(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<PublicAccount[]>
+
+  /**
+   * Read the vesting schedule attached to a token locker account.
+   *
+   * @param   {PublicAccount}   locker      The token locker account.
+   * @return  {Promise<VestingSchedule|undefined>}
+   */
+  getVestingSchedule(
+    locker: PublicAccount,
+  ): Promise<VestingSchedule | undefined>
+
+  /**
+   * Read the securities metadata of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<SecuritiesMetadata|undefined>}
+   */
+  getMetadata(
+    tokenId: TokenIdentifier,
+  ): Promise<SecuritiesMetadata | undefined>
+
+  /**
+   * Read the securities restrictions of a token.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<SecuritiesRestrictions|undefined>}
+   */
+  getRestrictions(
+    tokenId: TokenIdentifier,
+  ): Promise<SecuritiesRestrictions | undefined>
+}
@@ -0,0 +1,30 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// internal dependencies
+import { FailureCommandValidation } from '../../../../index'
+
+/**
+ * @class FailureInsufficientBalance
+ * @package errors
+ * @since v0.5.3
+ * @description Class that describes an error for insufficient partition balances.
+ */
+export class FailureInsufficientBalance extends FailureCommandValidation {
+  public constructor(message: string = 'Insufficient partition balance.') {
+    super(message, 'INSUFFICIENT_BALANCE')
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { CapTableExporter } from '../contracts/CapTableExporter'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+
+/**
+ * @class AbstractExporter
+ * @package NIP13/exporters
+ * @since v0.5.3
+ * @description Abstract class that describes cap table exporters with a
+ *              stable column schema. Rows are sorted by owner address,
+ *              partition name and partition address.
+ */
+export abstract class AbstractExporter implements CapTableExporter {
+  /**
+   * @description The stable column schema of exported documents.
+   */
+  public static readonly COLUMNS: string[] = [
+    'partition_name',
+    'owner_address',
+    'partition_address',
+    'amount',
+    'percentage',
+  ]
+
+  /**
+   * @description The document format (e.g. "csv")
+   */
+  public abstract get format(): string
+
+  /**
+   * Export the holder register of a token.
+   *
+   * @param   {TokenIdentifier}                 tokenId
+   * @param   {TokenPartition[]}                partitions
+   * @param   {SecuritiesMetadata|undefined}    metadata
+   * @param   {UInt64}                          height      The export block height.
+   * @return  {string}
+   */
+  public abstract export(
+    tokenId: TokenIdentifier,
+    partitions: TokenPartition[],
+    metadata: SecuritiesMetadata | undefined,
+    height: UInt64,
+  ): string
+
+  /**
+   * Get the header block of an exported document.
+   *
+   * @param   {TokenIdentifier}                 tokenId
+   * @param   {TokenPartition[]}                partitions
+   * @param   {SecuritiesMetadata|undefined}    metadata
+   * @param   {UInt64}                          height
+   * @return  {{token_id: string, isin: string, height: string, total: number}}
+   */
+  protected getHeader(
+    tokenId: TokenIdentifier,
+    partitions: TokenPartition[],
+    metadata: SecuritiesMetadata | undefined,
+    height: UInt64,
+  ): {token_id: string, isin: string, height: string, total: number} {
+    return {
+      token_id: tokenId.id,
+      isin: undefined !== metadata ? metadata.isin : '',
+      height: height.toString(),
+      total: partitions.reduce((sum, p) => sum + p.amount, 0),
+    }
+  }
+
+  /**
+   * Get the rows of an exported document. Values are listed
+   * in order of `AbstractExporter.COLUMNS`. Percentages are
+   * relative to the total amount of `partitions`.
+   *
+   * @param   {TokenPartition[]}  partitions
+   * @return  {[string, string, string, number, number][]}
+   */
+  protected getRows(
+    partitions: TokenPartition[],
+  ): [string, string, string, number, number][] {
+    const total = partitions.reduce((sum, p) => sum + p.amount, 0)
+    const compare = (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0
+
+    return partitions.slice().sort(
+      (a, b) => compare(a.owner.address.plain(), b.owner.address.plain())
+        || compare(a.name, b.name)
+        || compare(a.account.address.plain(), b.account.address.plain())
+    ).map(p => [
+      p.name,
+      p.owner.address.plain(),
+      p.account.address.plain(),
+      p.amount,
+      total > 0 ? Number((p.amount * 100 / total).toFixed(4)) : 0,
+    ])
+  }
+}
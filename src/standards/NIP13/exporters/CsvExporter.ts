@@ -0,0 +1,85 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { AbstractExporter } from './AbstractExporter'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+
+/**
+ * @class CsvExporter
+ * @package NIP13/exporters
+ * @since v0.5.3
+ * @description Class that describes a cap table exporter for CSV documents.
+ *              The header block is written as comment lines (`# key: value`).
+ */
+export class CsvExporter extends AbstractExporter {
+  /**
+   * @description The document format
+   */
+  public get format(): string {
+    return 'csv'
+  }
+
+  /**
+   * Export the holder register of a token to CSV.
+   *
+   * @param   {TokenIdentifier}                 tokenId
+   * @param   {TokenPartition[]}                partitions
+   * @param   {SecuritiesMetadata|undefined}    metadata
+   * @param   {UInt64}                          height      The export block height.
+   * @return  {string}
+   */
+  public export(
+    tokenId: TokenIdentifier,
+    partitions: TokenPartition[],
+    metadata: SecuritiesMetadata | undefined,
+    height: UInt64,
+  ): string {
+    const header = this.getHeader(tokenId, partitions, metadata, height)
+    const lines = Object.keys(header).map(
+      (key) => '# ' + key + ': ' + header[key as keyof typeof header]
+    )
+
+    // column names followed by one line per partition
+    lines.push(AbstractExporter.COLUMNS.join(','))
+    this.getRows(partitions).forEach(
+      row => lines.push(row.map(value => this.escape(value.toString())).join(','))
+    )
+
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Escape a CSV value (RFC 4180).
+   *
+   * @param   {string}  value
+   * @return  {string}
+   */
+  protected escape(
+    value: string,
+  ): string {
+    if (!/[",\r\n]/.test(value)) {
+      return value
+    }
+
+    return '"' + value.replace(/"/g, '""') + '"'
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+// internal dependencies
+import {
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { AbstractExporter } from './AbstractExporter'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+
+/**
+ * @class JsonExporter
+ * @package NIP13/exporters
+ * @since v0.5.3
+ * @description Class that describes a cap table exporter for JSON documents.
+ */
+export class JsonExporter extends AbstractExporter {
+  /**
+   * @description The document format
+   */
+  public get format(): string {
+    return 'json'
+  }
+
+  /**
+   * Export the holder register of a token to JSON. Rows
+   * are objects with keys of `AbstractExporter.COLUMNS`.
+   *
+   * @param   {TokenIdentifier}                 tokenId
+   * @param   {TokenPartition[]}                partitions
+   * @param   {SecuritiesMetadata|undefined}    metadata
+   * @param   {UInt64}                          height      The export block height.
+   * @return  {string}
+   */
+  public export(
+    tokenId: TokenIdentifier,
+    partitions: TokenPartition[],
+    metadata: SecuritiesMetadata | undefined,
+    height: UInt64,
+  ): string {
+    const rows = this.getRows(partitions).map(row => {
+      const entry: {[k: string]: string | number} = {}
+      AbstractExporter.COLUMNS.forEach((column, i) => {
+        entry[column] = row[i]
+      })
+      return entry
+    })
+
+    return JSON.stringify({
+      header: this.getHeader(tokenId, partitions, metadata, height),
+      columns: AbstractExporter.COLUMNS,
+      rows,
+    }, null, 2)
+  }
+}
@@ -29,6 +29,26 @@ import { ModifyRestriction as ModifyRestrictionImpl } from './commands/ModifyRes
 import { DelegateIssuerPower as DelegateIssuerPowerImpl } from './commands/DelegateIssuerPower'
 import { RevokeIssuerPower as RevokeIssuerPowerImpl } from './commands/RevokeIssuerPower'
 import { AttachDocument as AttachDocumentImpl } from './commands/AttachDocument'
+import { Notify as NotifyImpl } from './commands/Notify'
+import { MintTokens as MintTokensImpl } from './commands/MintTokens'
+import { BurnTokens as BurnTokensImpl } from './commands/BurnTokens'
+import { RenewToken as RenewTokenImpl } from './commands/RenewToken'
+import { DistributeDividend as DistributeDividendImpl } from './commands/DistributeDividend'
+import { StockSplit as StockSplitImpl } from './commands/StockSplit'
+import { ReverseSplit as ReverseSplitImpl } from './commands/ReverseSplit'
+import { ManageWhitelist as ManageWhitelistImpl } from './commands/ManageWhitelist'
+import { CreateVestingSchedule as CreateVestingScheduleImpl } from './commands/CreateVestingSchedule'
+import { ReleaseVested as ReleaseVestedImpl } from './commands/ReleaseVested'
+import { SettleTrade as SettleTradeImpl } from './commands/SettleTrade'
+import { LockSwap as LockSwapImpl } from './commands/LockSwap'
+import { ClaimSwap as ClaimSwapImpl } from './commands/ClaimSwap'
+import { RefundSwap as RefundSwapImpl } from './commands/RefundSwap'
+import { MovePartitionBalance as MovePartitionBalanceImpl } from './commands/MovePartitionBalance'
+import { SplitPartition as SplitPartitionImpl } from './commands/SplitPartition'
+import { MergePartitions as MergePartitionsImpl } from './commands/MergePartitions'
+import { ClosePartition as ClosePartitionImpl } from './commands/ClosePartition'
+import { ReassignPartitionOwner as ReassignPartitionOwnerImpl } from './commands/ReassignPartitionOwner'
+import { ChangeOperatorThreshold as ChangeOperatorThresholdImpl } from './commands/ChangeOperatorThreshold'
 
 export namespace NIP13 {
   /**
@@ -142,4 +162,164 @@ export namespace NIP13 {
    * @description Class that describes a token command for attaching documents to NIP13 compliant tokens or token holder partitions.
    */
   export class AttachDocument extends AttachDocumentImpl {}
+
+  /**
+   * @class NIP13.Notify
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for notifying token holders of NIP13 compliant tokens.
+   */
+  export class Notify extends NotifyImpl {}
+
+  /**
+   * @class NIP13.MintTokens
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for increasing the supply of NIP13 compliant tokens.
+   */
+  export class MintTokens extends MintTokensImpl {}
+
+  /**
+   * @class NIP13.BurnTokens
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for decreasing the supply of NIP13 compliant tokens.
+   */
+  export class BurnTokens extends BurnTokensImpl {}
+
+  /**
+   * @class NIP13.RenewToken
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for renewing the namespace and mosaic of NIP13 compliant tokens.
+   */
+  export class RenewToken extends RenewTokenImpl {}
+
+  /**
+   * @class NIP13.DistributeDividend
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for distributing dividends to holders of NIP13 compliant tokens.
+   */
+  export class DistributeDividend extends DistributeDividendImpl {}
+
+  /**
+   * @class NIP13.StockSplit
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for splitting shares of NIP13 compliant tokens.
+   */
+  export class StockSplit extends StockSplitImpl {}
+
+  /**
+   * @class NIP13.ReverseSplit
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for consolidating shares of NIP13 compliant tokens.
+   */
+  export class ReverseSplit extends ReverseSplitImpl {}
+
+  /**
+   * @class NIP13.ManageWhitelist
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for assigning or removing user roles of NIP13 compliant tokens.
+   */
+  export class ManageWhitelist extends ManageWhitelistImpl {}
+
+  /**
+   * @class NIP13.CreateVestingSchedule
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for locking vested balances of NIP13 compliant tokens.
+   */
+  export class CreateVestingSchedule extends CreateVestingScheduleImpl {}
+
+  /**
+   * @class NIP13.ReleaseVested
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for unlocking vested balances of NIP13 compliant tokens.
+   */
+  export class ReleaseVested extends ReleaseVestedImpl {}
+
+  /**
+   * @class NIP13.SettleTrade
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for settling trades of NIP13 compliant tokens.
+   */
+  export class SettleTrade extends SettleTradeImpl {}
+
+  /**
+   * @class NIP13.LockSwap
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for locking shares of NIP13 compliant tokens with a secret.
+   */
+  export class LockSwap extends LockSwapImpl {}
+
+  /**
+   * @class NIP13.ClaimSwap
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for claiming locked shares of NIP13 compliant tokens.
+   */
+  export class ClaimSwap extends ClaimSwapImpl {}
+
+  /**
+   * @class NIP13.RefundSwap
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for refunding expired swap locks of NIP13 compliant tokens.
+   */
+  export class RefundSwap extends RefundSwapImpl {}
+
+  /**
+   * @class NIP13.MovePartitionBalance
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for moving shares between partitions of one holder.
+   */
+  export class MovePartitionBalance extends MovePartitionBalanceImpl {}
+
+  /**
+   * @class NIP13.SplitPartition
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for splitting token holder partitions of NIP13 compliant tokens.
+   */
+  export class SplitPartition extends SplitPartitionImpl {}
+
+  /**
+   * @class NIP13.MergePartitions
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for merging token holder partitions of NIP13 compliant tokens.
+   */
+  export class MergePartitions extends MergePartitionsImpl {}
+
+  /**
+   * @class NIP13.ClosePartition
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for closing token holder partitions of NIP13 compliant tokens.
+   */
+  export class ClosePartition extends ClosePartitionImpl {}
+
+  /**
+   * @class NIP13.ReassignPartitionOwner
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for reassigning the owner of token holder partitions.
+   */
+  export class ReassignPartitionOwner extends ReassignPartitionOwnerImpl {}
+
+  /**
+   * @class NIP13.ChangeOperatorThreshold
+   * @package interfaces
+   * @since v0.5.3
+   * @description Class that describes a token command for changing the operators quorum of NIP13 compliant tokens.
+   */
+  export class ChangeOperatorThreshold extends ChangeOperatorThresholdImpl {}
 }
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @type AnnounceStep
+ * @package models
+ * @since v0.5.3
+ * @description Type that describes the steps of a contract announcement.
+ */
+export type AnnounceStep = 'lock-signed' | 'lock-confirmed' | 'aggregate-announced'
+
+/**
+ * @class AnnounceEvent
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the progress of a contract announcement.
+ */
+export class AnnounceEvent {
+  /**
+   * Constructor for AnnounceEvent objects
+   *
+   * @param {AnnounceStep}  step
+   * @param {string}        hash
+   */
+  public constructor(
+    /**
+     * @description The announcement step
+     */
+    public readonly step: AnnounceStep,
+
+    /**
+     * @description The hash of the transaction concerned by this step
+     */
+    public readonly hash: string,
+  )
+  {}
+}
@@ -0,0 +1,104 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+
+/**
+ * @class CapTableSnapshot
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the immutable capitalization table
+ *              of a token at a given block height (record date).
+ */
+export class CapTableSnapshot {
+  /**
+   * @description The balances of token holder partitions at `height`
+   */
+  public readonly partitions: ReadonlyArray<TokenPartition>
+
+  /**
+   * Constructor for CapTableSnapshot objects
+   *
+   * @param {TokenIdentifier}   tokenId
+   * @param {UInt64}            height
+   * @param {number}            treasury
+   * @param {TokenPartition[]}  partitions
+   */
+  public constructor(
+    /**
+     * @description The token identifier
+     */
+    public readonly tokenId: TokenIdentifier,
+
+    /**
+     * @description The block height of the snapshot
+     */
+    public readonly height: UInt64,
+
+    /**
+     * @description The number of shares owned by the target account at `height`
+     */
+    public readonly treasury: number,
+
+    partitions: TokenPartition[],
+  )
+  {
+    // :note: partitions are copied such that the snapshot cannot change
+    this.partitions = Object.freeze(partitions.map(
+      p => Object.freeze(new TokenPartition(p.name, p.owner, p.account, p.amount, p.nonce))
+    ))
+
+    Object.freeze(this)
+  }
+
+  /**
+   * Getter for the total number of shares (partitions and treasury).
+   *
+   * @return {number}
+   */
+  public get total(): number {
+    return this.partitions.reduce((sum, p) => sum + p.amount, this.treasury)
+  }
+
+  /**
+   * Getter for the number of shares per partition owner. Owners
+   * are listed in order of appearance of their first partition.
+   *
+   * @return {ReadonlyArray<{owner: PublicAccount, amount: number}>}
+   */
+  public get owners(): ReadonlyArray<{owner: PublicAccount, amount: number}> {
+    const owners: {owner: PublicAccount, amount: number}[] = []
+    this.partitions.forEach(p => {
+      const entry = owners.find(o => o.owner.publicKey === p.owner.publicKey)
+      if (undefined === entry) {
+        owners.push({ owner: p.owner, amount: p.amount })
+      }
+      else {
+        entry.amount += p.amount
+      }
+    })
+
+    return Object.freeze(owners.map(o => Object.freeze(o)))
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// internal dependencies
+import { CommandPlanStep } from './CommandPlanStep'
+
+/**
+ * @class CommandPlan
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the transactions that a token command
+ *              would produce if it was executed (dry-run).
+ */
+export class CommandPlan {
+  /**
+   * Constructor for CommandPlan objects
+   *
+   * @param {string}            command
+   * @param {string}            descriptor
+   * @param {CommandPlanStep[]} steps
+   */
+  public constructor(
+    /**
+     * @description The token command name
+     */
+    public readonly command: string,
+
+    /**
+     * @description The token command descriptor
+     */
+    public readonly descriptor: string,
+
+    /**
+     * @description The inner transactions of the contract
+     */
+    public readonly steps: CommandPlanStep[],
+  )
+  {}
+
+  /**
+   * Getter for a human-readable summary of the plan.
+   *
+   * @return {string}
+   */
+  public get summary(): string {
+    return [
+      this.command + ' (' + this.descriptor + ') produces ' + this.steps.length + ' transaction(s):',
+    ].concat(this.steps.map(s => s.summary)).join('\n')
+  }
+}
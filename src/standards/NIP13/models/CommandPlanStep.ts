@@ -0,0 +1,114 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  Mosaic,
+  NamespaceId,
+  PublicAccount,
+} from 'symbol-sdk'
+
+/**
+ * @type SignerRole
+ * @package models
+ * @since v0.5.3
+ * @description Type that describes the role of a transaction signer in a token command.
+ */
+export type SignerRole = 'target' | 'partition' | 'holder' | 'locker' | 'operator' | 'account'
+
+/**
+ * @class CommandPlanStep
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes one inner transaction that a token command would produce.
+ */
+export class CommandPlanStep {
+  /**
+   * Constructor for CommandPlanStep objects
+   *
+   * @param {number}        index
+   * @param {string}        type
+   * @param {PublicAccount} signer
+   * @param {SignerRole}    role
+   * @param {Address|NamespaceId|undefined} recipient
+   * @param {Mosaic[]}      mosaics
+   * @param {string|undefined} message
+   */
+  public constructor(
+    /**
+     * @description The position of the transaction in the contract (0-based)
+     */
+    public readonly index: number,
+
+    /**
+     * @description The transaction type name (e.g.: TRANSFER)
+     */
+    public readonly type: string,
+
+    /**
+     * @description The transaction signer
+     */
+    public readonly signer: PublicAccount,
+
+    /**
+     * @description The role of the transaction signer
+     */
+    public readonly role: SignerRole,
+
+    /**
+     * @description The recipient or target address (Optional)
+     */
+    public readonly recipient: Address | NamespaceId | undefined = undefined,
+
+    /**
+     * @description The transferred mosaics
+     */
+    public readonly mosaics: Mosaic[] = [],
+
+    /**
+     * @description The attached message or metadata value (Optional)
+     */
+    public readonly message: string | undefined = undefined,
+  )
+  {}
+
+  /**
+   * Getter for a human-readable summary of the step.
+   *
+   * @return {string}
+   */
+  public get summary(): string {
+    let summary = '#' + (this.index + 1) + ' ' + this.type
+                + ' signed by ' + this.role + ' ' + this.signer.address.plain()
+
+    if (undefined !== this.recipient) {
+      summary += ' for ' + (this.recipient instanceof Address
+        ? this.recipient.plain()
+        : this.recipient.toHex())
+    }
+
+    if (this.mosaics.length) {
+      summary += ' with ' + this.mosaics.map(
+        m => m.amount.compact() + ' ' + m.id.toHex()
+      ).join(', ')
+    }
+
+    if (undefined !== this.message && this.message.length) {
+      summary += ' "' + this.message + '"'
+    }
+
+    return summary
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { TransactionURI } from 'symbol-uri-scheme'
+
+/**
+ * @class ContractChunk
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes one of multiple contracts that result of
+ *              a token command execution. Chunks MUST be announced in order.
+ */
+export class ContractChunk {
+  /**
+   * Constructor for ContractChunk objects
+   *
+   * @param {number}          index
+   * @param {number}          count
+   * @param {TransactionURI}  uri
+   */
+  public constructor(
+    /**
+     * @description The position of the contract (0-based)
+     */
+    public readonly index: number,
+
+    /**
+     * @description The total number of contracts
+     */
+    public readonly count: number,
+
+    /**
+     * @description The contract transaction URI
+     */
+    public readonly uri: TransactionURI,
+  )
+  {}
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+/**
+ * @class FeeEstimate
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the estimated fees of a token command contract.
+ */
+export class FeeEstimate {
+  /**
+   * Constructor for FeeEstimate objects
+   *
+   * @param {number}  size
+   * @param {number}  cosignatures
+   * @param {number}  feeMultiplier
+   * @param {UInt64}  maxFee
+   * @param {UInt64}  lockFee
+   */
+  public constructor(
+    /**
+     * @description The aggregate size in bytes (including expected cosignatures)
+     */
+    public readonly size: number,
+
+    /**
+     * @description The number of expected cosignatures
+     */
+    public readonly cosignatures: number,
+
+    /**
+     * @description The fee multiplier used for the estimation
+     */
+    public readonly feeMultiplier: number,
+
+    /**
+     * @description The aggregate transaction fee (absolute amount)
+     */
+    public readonly maxFee: UInt64,
+
+    /**
+     * @description The hash lock transaction fee (0 for aggregate complete)
+     */
+    public readonly lockFee: UInt64 = UInt64.fromUint(0),
+  )
+  {}
+
+  /**
+   * Getter for the total fee (aggregate fee and hash lock fee).
+   *
+   * @return {UInt64}
+   */
+  public get total(): UInt64 {
+    return this.maxFee.add(this.lockFee)
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @enum FractionalPolicy
+ * @package models
+ * @since v0.5.3
+ * @description Enumeration of policies for fractional shares that result of a split.
+ */
+export enum FractionalPolicy {
+  CashInLieu = 'cash-in-lieu', // round down and report fractions for cash payment
+  RoundUp = 'round-up', // round fractions up to one whole share
+  RoundHalfUp = 'round-half-up', // round fractions to the nearest whole share
+}
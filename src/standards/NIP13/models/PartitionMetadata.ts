@@ -0,0 +1,68 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+} from 'symbol-sdk'
+
+/**
+ * @class PartitionMetadata
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the `NAME`, `OWNER` and `NONCE` account
+ *              metadata of token holder partition accounts. The nonce is the
+ *              collision resolution step used to derive the partition account.
+ */
+export class PartitionMetadata {
+  /**
+   * Constructor for PartitionMetadata objects
+   *
+   * @param {string}    name
+   * @param {string}    owner
+   * @param {number}    nonce
+   */
+  public constructor(
+    /**
+     * @description The partition name (`NAME` metadata)
+     */
+    public readonly name: string,
+
+    /**
+     * @description The partition owner address (`OWNER` metadata)
+     */
+    public readonly owner: string,
+
+    /**
+     * @description The derivation nonce (`NONCE` metadata, defaults to 0)
+     */
+    public readonly nonce: number = 0,
+  )
+  {}
+
+  /**
+   * Returns whether the partition account is used by \a owner
+   * for the partition with name \a name.
+   *
+   * @param   {PublicAccount} owner
+   * @param   {string}        name
+   * @return  {boolean}
+   */
+  public isUsedBy(
+    owner: PublicAccount,
+    name: string,
+  ): boolean {
+    return this.owner === owner.address.plain() && this.name === name
+  }
+}
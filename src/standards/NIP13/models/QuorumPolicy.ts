@@ -0,0 +1,168 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @type QuorumRule
+ * @package models
+ * @since v0.5.3
+ * @description Type that describes a number of required operator cosignatures,
+ *              either absolute (e.g. `2` for 2-of-n) or relative to the number
+ *              of operators.
+ */
+export type QuorumRule = number | 'all' | 'majority' | 'all-but-one'
+
+/**
+ * @class QuorumPolicy
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the multisig quorum policy of token operators
+ *              (minApproval and minRemoval of the target account).
+ */
+export class QuorumPolicy {
+  /**
+   * Constructor for QuorumPolicy objects
+   *
+   * @param {QuorumRule}  approval
+   * @param {QuorumRule}  removal
+   */
+  public constructor(
+    /**
+     * @description The rule for the number of cosignatures to approve transactions
+     */
+    public readonly approval: QuorumRule,
+
+    /**
+     * @description The rule for the number of cosignatures to remove operators
+     */
+    public readonly removal: QuorumRule,
+  )
+  {}
+
+  /**
+   * @description The default policy requires all operators for approval and
+   *              all operators except one for removal (loss of up to 1 key).
+   */
+  public static readonly DEFAULT: QuorumPolicy = new QuorumPolicy('all', 'all-but-one')
+
+  /**
+   * Create a quorum policy from its metadata value.
+   *
+   * @param   {string}  value
+   * @return  {QuorumPolicy}
+   */
+  public static fromMetadata(
+    value: string,
+  ): QuorumPolicy {
+    const json = JSON.parse(value)
+    return new QuorumPolicy(json.approval, json.removal)
+  }
+
+  /**
+   * Get the metadata value of said quorum policy.
+   *
+   * @return {string}
+   */
+  public toMetadata(): string {
+    return JSON.stringify({
+      approval: this.approval,
+      removal: this.removal,
+    })
+  }
+
+  /**
+   * Get the minApproval value of said policy for `count` operators.
+   *
+   * @param   {number}  count
+   * @return  {number}
+   */
+  public getMinApproval(
+    count: number,
+  ): number {
+    return QuorumPolicy.resolve(this.approval, count)
+  }
+
+  /**
+   * Get the minRemoval value of said policy for `count` operators.
+   *
+   * @param   {number}  count
+   * @return  {number}
+   */
+  public getMinRemoval(
+    count: number,
+  ): number {
+    return QuorumPolicy.resolve(this.removal, count)
+  }
+
+  /**
+   * Returns whether said policy can be applied to `count` operators. At
+   * least one cosignature is required for approval and neither value
+   * may exceed the number of operators.
+   *
+   * @param   {number}  count
+   * @return  {boolean}
+   */
+  public isValid(
+    count: number,
+  ): boolean {
+    const minApproval = this.getMinApproval(count)
+    const minRemoval = this.getMinRemoval(count)
+
+    return Number.isInteger(minApproval) && Number.isInteger(minRemoval)
+        && minApproval >= 1 && minApproval <= count
+        && minRemoval >= 0 && minRemoval <= count
+  }
+
+  /**
+   * Get the minApproval and minRemoval values of token holder partitions
+   * for `count` operators. The token holder is an optional cosignatory
+   * for approval and is counted as a cosignatory for removal.
+   *
+   * @param   {number}  count
+   * @return  {{minApproval: number, minRemoval: number}}
+   */
+  public getPartitionQuorum(
+    count: number,
+  ): { minApproval: number, minRemoval: number } {
+    return {
+      minApproval: this.getMinApproval(count),
+      minRemoval: QuorumPolicy.resolve(this.removal, count + 1),
+    }
+  }
+
+  /**
+   * Resolve a quorum `rule` for `count` operators.
+   *
+   * @param   {QuorumRule}  rule
+   * @param   {number}      count
+   * @return  {number}
+   */
+  protected static resolve(
+    rule: QuorumRule,
+    count: number,
+  ): number {
+    if ('all' === rule) {
+      return count
+    }
+    else if ('majority' === rule) {
+      return Math.floor(count / 2) + 1
+    }
+    else if ('all-but-one' === rule) {
+      return count - 1
+    }
+
+    return rule
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Address } from 'symbol-sdk'
+
+// internal dependencies
+import { UserRole } from './UserRole'
+
+/**
+ * @class RoleAssignment
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the 'User_Role' restriction of an address.
+ */
+export class RoleAssignment {
+  /**
+   * Constructor for RoleAssignment objects
+   *
+   * @param {Address}   address
+   * @param {UserRole}  role
+   */
+  public constructor(
+    /**
+     * @description The restricted address
+     */
+    public readonly address: Address,
+
+    /**
+     * @description The role of said address
+     */
+    public readonly role: UserRole,
+  )
+  {}
+}
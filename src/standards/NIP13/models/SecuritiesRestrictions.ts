@@ -15,6 +15,9 @@
  */
 import { MosaicRestrictionType } from 'symbol-sdk'
 
+// internal dependencies
+import { UserRole } from './UserRole'
+
 /**
  * @type SecuritiesRestriction
  * @package models
@@ -47,15 +50,11 @@ export class SecuritiesRestrictions {
    * @summary Currently the default minimum value for restriction
    *          field 'User_Role' is set to 3.
    *
-   * Values for the 'User_Role' field include:
-   * - 1 = Target
-   * - 2 = Holder
-   * - 3 = Locker
-   * - 4 = Guest
+   * @see {UserRole} for values of the 'User_Role' field.
    */
   public static readonly DEFAULT_ROLE_RESTRICTION: SecuritiesRestrictionSet = {
     'User_Role': {
-      [MosaicRestrictionType.LE]: 3
+      [MosaicRestrictionType.LE]: UserRole.Locker,
     }
   }
 
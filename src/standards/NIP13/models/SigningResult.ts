@@ -0,0 +1,61 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  SignedTransaction,
+} from 'symbol-sdk'
+
+/**
+ * @class SigningResult
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes a token command contract signed with derived keys.
+ */
+export class SigningResult {
+  /**
+   * Constructor for SigningResult objects
+   *
+   * @param {SignedTransaction} signedTransaction
+   * @param {PublicAccount[]}   signers
+   * @param {PublicAccount[]}   missing
+   */
+  public constructor(
+    /**
+     * @description The signed aggregate transaction
+     */
+    public readonly signedTransaction: SignedTransaction,
+
+    /**
+     * @description The accounts that signed or cosigned the contract
+     */
+    public readonly signers: PublicAccount[],
+
+    /**
+     * @description The required cosigners that are not available in the key provider
+     */
+    public readonly missing: PublicAccount[],
+  )
+  {}
+
+  /**
+   * Getter for whether all required signatures are present.
+   *
+   * @return {boolean}
+   */
+  public get isComplete(): boolean {
+    return this.missing.length === 0
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// internal dependencies
+import { FractionalPolicy } from './FractionalPolicy'
+import { SplitReportEntry } from './SplitReportEntry'
+
+/**
+ * @class SplitReport
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the balances of token holder partitions
+ *              before and after a stock split or a reverse split.
+ */
+export class SplitReport {
+  /**
+   * Constructor for SplitReport objects
+   *
+   * @param {string}              command
+   * @param {number}              ratio
+   * @param {FractionalPolicy}    policy
+   * @param {SplitReportEntry[]}  entries
+   * @param {number}              treasuryBefore
+   * @param {number}              treasuryAfter
+   */
+  public constructor(
+    /**
+     * @description The token command name
+     */
+    public readonly command: string,
+
+    /**
+     * @description The split ratio
+     */
+    public readonly ratio: number,
+
+    /**
+     * @description The fractional shares policy
+     */
+    public readonly policy: FractionalPolicy,
+
+    /**
+     * @description The balances of token holder partitions
+     */
+    public readonly entries: SplitReportEntry[],
+
+    /**
+     * @description The number of shares owned by the target account before the split
+     */
+    public readonly treasuryBefore: number = 0,
+
+    /**
+     * @description The number of shares owned by the target account after the split
+     */
+    public readonly treasuryAfter: number = 0,
+  )
+  {}
+
+  /**
+   * Getter for the total number of shares before the split.
+   *
+   * @return {number}
+   */
+  public get totalBefore(): number {
+    return this.entries.reduce((sum, e) => sum + e.before, this.treasuryBefore)
+  }
+
+  /**
+   * Getter for the total number of shares after the split.
+   *
+   * @return {number}
+   */
+  public get totalAfter(): number {
+    return this.entries.reduce((sum, e) => sum + e.after, this.treasuryAfter)
+  }
+
+  /**
+   * Getter for the entries that are owed a cash payment
+   * for fractional shares (cash-in-lieu).
+   *
+   * @return {SplitReportEntry[]}
+   */
+  public get cashInLieu(): SplitReportEntry[] {
+    return this.entries.filter(e => e.fraction > 0)
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { PublicAccount } from 'symbol-sdk'
+
+/**
+ * @class SplitReportEntry
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the balances of one token holder
+ *              partition before and after a split.
+ */
+export class SplitReportEntry {
+  /**
+   * Constructor for SplitReportEntry objects
+   *
+   * @param {string}        name
+   * @param {PublicAccount} account
+   * @param {number}        before
+   * @param {number}        after
+   * @param {number}        fraction
+   */
+  public constructor(
+    /**
+     * @description The partition name
+     */
+    public readonly name: string,
+
+    /**
+     * @description The partition account
+     */
+    public readonly account: PublicAccount,
+
+    /**
+     * @description The number of shares before the split
+     */
+    public readonly before: number,
+
+    /**
+     * @description The number of shares after the split
+     */
+    public readonly after: number,
+
+    /**
+     * @description The fractional share removed by rounding (negative if rounded up)
+     */
+    public readonly fraction: number = 0,
+  )
+  {}
+}
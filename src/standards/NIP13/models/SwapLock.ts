@@ -0,0 +1,131 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  UInt64,
+} from 'symbol-sdk'
+
+/**
+ * @class SwapLock
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes a secret lock of token shares issued
+ *              by the target account on behalf of a token holder partition.
+ */
+export class SwapLock {
+  /**
+   * Constructor for SwapLock objects
+   *
+   * @param {string}    secret
+   * @param {Address}   partition
+   * @param {Address}   recipient
+   * @param {number}    amount
+   * @param {UInt64}    height
+   * @param {UInt64}    duration
+   * @param {boolean}   claimed
+   * @param {boolean}   refunded
+   */
+  public constructor(
+    /**
+     * @description The lock secret (hexadecimal)
+     */
+    public readonly secret: string,
+
+    /**
+     * @description The partition account that locked its shares
+     */
+    public readonly partition: Address,
+
+    /**
+     * @description The counterparty partition account
+     */
+    public readonly recipient: Address,
+
+    /**
+     * @description The number of locked shares
+     */
+    public readonly amount: number,
+
+    /**
+     * @description The height at which the lock was confirmed
+     */
+    public readonly height: UInt64,
+
+    /**
+     * @description The lock duration in blocks
+     */
+    public readonly duration: UInt64,
+
+    /**
+     * @description Whether the lock was claimed with a proof
+     */
+    public readonly claimed: boolean = false,
+
+    /**
+     * @description Whether the locked shares were refunded to the partition account
+     */
+    public readonly refunded: boolean = false,
+  )
+  {}
+
+  /**
+   * Getter for the height at which the lock expires.
+   *
+   * @return {UInt64}
+   */
+  public get endHeight(): UInt64 {
+    return this.height.add(this.duration)
+  }
+
+  /**
+   * Returns whether the lock is expired at `currentHeight`. Expired
+   * locks are returned to the target account by the network.
+   *
+   * @param   {UInt64}  currentHeight
+   * @return  {boolean}
+   */
+  public isExpired(
+    currentHeight: UInt64,
+  ): boolean {
+    return currentHeight.compare(this.endHeight) >= 0
+  }
+
+  /**
+   * Returns whether the locked shares can be claimed with a proof
+   * at `currentHeight`.
+   *
+   * @param   {UInt64}  currentHeight
+   * @return  {boolean}
+   */
+  public isClaimable(
+    currentHeight: UInt64,
+  ): boolean {
+    return !this.claimed && !this.refunded && !this.isExpired(currentHeight)
+  }
+
+  /**
+   * Returns whether the locked shares can be refunded to the
+   * partition account at `currentHeight`.
+   *
+   * @param   {UInt64}  currentHeight
+   * @return  {boolean}
+   */
+  public isRefundable(
+    currentHeight: UInt64,
+  ): boolean {
+    return !this.claimed && !this.refunded && this.isExpired(currentHeight)
+  }
+}
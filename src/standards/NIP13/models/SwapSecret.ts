@@ -0,0 +1,102 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Convert,
+  Crypto,
+  LockHashAlgorithm,
+  LockHashUtils,
+} from 'symbol-sdk'
+
+/**
+ * @class SwapSecret
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the secret and proof of a hash-time-locked
+ *              swap. Secrets are SHA3-256 hashes of their proof.
+ */
+export class SwapSecret {
+  /**
+   * Constructor for SwapSecret objects
+   *
+   * @param {string}  secret
+   * @param {string}  proof
+   */
+  public constructor(
+    /**
+     * @description The secret (hexadecimal SHA3-256 hash of the proof)
+     */
+    public readonly secret: string,
+
+    /**
+     * @description The proof (hexadecimal, empty if unknown)
+     */
+    public readonly proof: string = '',
+  )
+  {}
+
+  /**
+   * @description The hash algorithm used for secrets.
+   */
+  public static readonly HASH_ALGORITHM: LockHashAlgorithm = LockHashAlgorithm.Op_Sha3_256
+
+  /**
+   * Generate a random proof of `size` bytes and its secret.
+   *
+   * @param   {number}  size
+   * @return  {SwapSecret}
+   */
+  public static generate(
+    size: number = 32,
+  ): SwapSecret {
+    return SwapSecret.fromProof(Convert.uint8ToHex(Crypto.randomBytes(size)))
+  }
+
+  /**
+   * Create a swap secret from its hexadecimal `proof`.
+   *
+   * @param   {string}  proof
+   * @return  {SwapSecret}
+   */
+  public static fromProof(
+    proof: string,
+  ): SwapSecret {
+    return new SwapSecret(SwapSecret.getSecret(proof), proof.toUpperCase())
+  }
+
+  /**
+   * Get the secret (SHA3-256 hash) of the hexadecimal `proof`.
+   *
+   * @param   {string}  proof
+   * @return  {string}
+   */
+  public static getSecret(
+    proof: string,
+  ): string {
+    return LockHashUtils.Op_Sha3_256(Convert.hexToUint8(proof))
+  }
+
+  /**
+   * Returns whether `proof` is the proof of said secret.
+   *
+   * @param   {string}  proof
+   * @return  {boolean}
+   */
+  public matches(
+    proof: string,
+  ): boolean {
+    return Convert.isHexString(proof) && SwapSecret.getSecret(proof) === this.secret.toUpperCase()
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { UInt64 } from 'symbol-sdk'
+
+/**
+ * @class TokenExpiry
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the expiry of the root namespace and mosaic
+ *              of a token. Eternal durations are represented by `undefined`.
+ */
+export class TokenExpiry {
+  /**
+   * Constructor for TokenExpiry objects
+   *
+   * @param {UInt64}            currentHeight
+   * @param {UInt64|undefined}  namespaceEndHeight
+   * @param {UInt64|undefined}  mosaicEndHeight
+   */
+  public constructor(
+    /**
+     * @description The chain height at which the expiry was read
+     */
+    public readonly currentHeight: UInt64,
+
+    /**
+     * @description The height at which the root namespace expires (undefined if eternal)
+     */
+    public readonly namespaceEndHeight: UInt64 | undefined,
+
+    /**
+     * @description The height at which the mosaic expires (undefined if eternal)
+     */
+    public readonly mosaicEndHeight: UInt64 | undefined,
+  )
+  {}
+
+  /**
+   * Getter for the number of blocks until the root namespace expires.
+   *
+   * @return {number|undefined}
+   */
+  public get namespaceRemainingBlocks(): number | undefined {
+    return this.getRemainingBlocks(this.namespaceEndHeight)
+  }
+
+  /**
+   * Getter for the number of blocks until the mosaic expires.
+   *
+   * @return {number|undefined}
+   */
+  public get mosaicRemainingBlocks(): number | undefined {
+    return this.getRemainingBlocks(this.mosaicEndHeight)
+  }
+
+  /**
+   * Returns whether the root namespace or the mosaic
+   * expire in less than `blocks` blocks.
+   *
+   * @param   {number}  blocks
+   * @return  {boolean}
+   */
+  public expiresWithin(
+    blocks: number,
+  ): boolean {
+    return [ this.namespaceRemainingBlocks, this.mosaicRemainingBlocks ].some(
+      remaining => undefined !== remaining && remaining < blocks
+    )
+  }
+
+  /**
+   * Get the number of blocks until `endHeight` (0 if expired).
+   *
+   * @param   {UInt64|undefined}  endHeight
+   * @return  {number|undefined}
+   */
+  protected getRemainingBlocks(
+    endHeight: UInt64 | undefined,
+  ): number | undefined {
+    if (undefined === endHeight) {
+      return undefined
+    }
+
+    const current = this.currentHeight.compact()
+    const end = endHeight.compact()
+    return end > current ? end - current : 0
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @enum UserRole
+ * @package models
+ * @since v0.5.3
+ * @description Enumeration of values for the 'User_Role' mosaic restriction
+ *              field. Accounts with a role up to `Locker` can hold tokens.
+ */
+export enum UserRole {
+  Target = 1, // the deterministic account that represents the token
+  Holder = 2, // token holder partition accounts
+  Locker = 3, // locker accounts (e.g. vesting, escrow)
+  Guest = 4, // whitelisted accounts that cannot hold tokens
+}
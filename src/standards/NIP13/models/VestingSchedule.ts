@@ -0,0 +1,125 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @type VestingUnit
+ * @package models
+ * @since v0.5.3
+ * @description Type that describes the unit of vesting schedule positions
+ *              (block heights or timestamps in milliseconds).
+ */
+export type VestingUnit = 'height' | 'timestamp'
+
+/**
+ * @class VestingSchedule
+ * @package models
+ * @since v0.5.3
+ * @description Model that describes the vesting schedule of locked shares.
+ *              Shares vest in `tranches` equal tranches separated by `period`,
+ *              the first tranche vests after `cliff` counted from `start`.
+ */
+export class VestingSchedule {
+  /**
+   * Constructor for VestingSchedule objects
+   *
+   * @param {number}      amount
+   * @param {number}      start
+   * @param {number}      cliff
+   * @param {number}      period
+   * @param {number}      tranches
+   * @param {VestingUnit} unit
+   */
+  public constructor(
+    /**
+     * @description The total number of locked shares
+     */
+    public readonly amount: number,
+
+    /**
+     * @description The start position (block height or timestamp)
+     */
+    public readonly start: number,
+
+    /**
+     * @description The offset of the first tranche from `start`
+     */
+    public readonly cliff: number,
+
+    /**
+     * @description The offset between two tranches
+     */
+    public readonly period: number,
+
+    /**
+     * @description The number of tranches
+     */
+    public readonly tranches: number,
+
+    /**
+     * @description The unit of positions
+     */
+    public readonly unit: VestingUnit = 'height',
+  )
+  {}
+
+  /**
+   * Create a vesting schedule from its metadata value.
+   *
+   * @param   {string}  value
+   * @return  {VestingSchedule}
+   */
+  public static fromMetadata(
+    value: string,
+  ): VestingSchedule {
+    const json = JSON.parse(value)
+    return new VestingSchedule(json.amount, json.start, json.cliff, json.period, json.tranches, json.unit)
+  }
+
+  /**
+   * Get the metadata value of said vesting schedule.
+   *
+   * @return {string}
+   */
+  public toMetadata(): string {
+    return JSON.stringify({
+      amount: this.amount,
+      start: this.start,
+      cliff: this.cliff,
+      period: this.period,
+      tranches: this.tranches,
+      unit: this.unit,
+    })
+  }
+
+  /**
+   * Get the number of vested shares at position `at`. The
+   * last tranche includes the remainder of the division.
+   *
+   * @param   {number}  at    The block height or timestamp
+   * @return  {number}
+   */
+  public getVestedAmount(
+    at: number,
+  ): number {
+    const firstTranche = this.start + this.cliff
+    if (at < firstTranche) {
+      return 0
+    }
+
+    const elapsed = this.period > 0 ? Math.floor((at - firstTranche) / this.period) + 1 : this.tranches
+    return Math.floor(this.amount * Math.min(elapsed, this.tranches) / this.tranches)
+  }
+}
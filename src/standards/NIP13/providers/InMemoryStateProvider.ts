@@ -0,0 +1,611 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  Mosaic,
+  MosaicFlags,
+  MosaicId,
+  MosaicInfo,
+  MultisigAccountInfo,
+  PublicAccount,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Notification,
+  NotificationProof,
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { TokenStateProvider } from '../contracts/TokenStateProvider'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+import {
+  SecuritiesRestrictions,
+  SecuritiesRestrictionSet,
+} from '../models/SecuritiesRestrictions'
+import { PartitionMetadata } from '../models/PartitionMetadata'
+import { SwapLock } from '../models/SwapLock'
+import { RoleAssignment } from '../models/RoleAssignment'
+import { TokenExpiry } from '../models/TokenExpiry'
+import { CapTableSnapshot } from '../models/CapTableSnapshot'
+import { VestingSchedule } from '../models/VestingSchedule'
+import { QuorumPolicy, QuorumRule } from '../models/QuorumPolicy'
+
+/**
+ * @type TokenStateFixture
+ * @package NIP13/providers
+ * @since v0.5.3
+ * @description Type that describes a JSON fixture of NIP13 token state.
+ *              Accounts are represented by their public key.
+ */
+export type TokenStateFixture = {
+  height?: number
+  timestamp?: number
+  operators?: string[]
+  quorum?: {
+    minApproval: number
+    minRemoval: number
+  }
+  policy?: {
+    approval: QuorumRule
+    removal: QuorumRule
+  }
+  mosaic?: {
+    supply: number
+    height?: number
+    revision?: number
+    flags?: number
+    divisibility?: number
+    duration?: number
+  }
+  namespace?: {
+    endHeight?: number
+  }
+  partitions?: {
+    name: string
+    owner: string
+    account: string
+    amount: number
+    nonce?: number
+  }[]
+  closedPartitions?: {
+    name: string
+    owner: string
+    account: string
+  }[]
+  metadata?: {
+    mic?: string
+    isin?: string
+    classification?: string
+    website?: string
+    sector?: string
+    industry?: string
+    customMetadata?: {[k: string]: string}
+  }
+  restrictions?: SecuritiesRestrictionSet
+  balances?: {[publicKey: string]: {[mosaicId: string]: number}}
+  swapLocks?: {
+    secret: string
+    partition: string
+    recipient: string
+    amount: number
+    height: number
+    duration: number
+    claimed?: boolean
+    refunded?: boolean
+  }[]
+  roles?: {
+    address: string
+    role: number
+  }[]
+  notifications?: {
+    recipient: string
+    message: string
+    hash?: string
+  }[]
+  vestingSchedules?: {[publicKey: string]: {
+    amount: number
+    start: number
+    cliff: number
+    period: number
+    tranches: number
+    unit?: string
+  }}
+}
+
+/**
+ * @class InMemoryStateProvider
+ * @package NIP13/providers
+ * @since v0.5.3
+ * @description Class that describes a token state provider that reads
+ *              the token state from memory. This provider can be seeded
+ *              with JSON fixtures and does not need a network connection.
+ *              Parameters of the provider interface that are not needed
+ *              to read the seeded state are omitted.
+ */
+export class InMemoryStateProvider implements TokenStateProvider {
+  /**
+   * @description The current chain height.
+   */
+  public height: UInt64 = UInt64.fromUint(1)
+
+  /**
+   * @description The chain time at the current chain height.
+   */
+  public timestamp: number = 0
+
+  /**
+   * @description List of operators of said token.
+   */
+  public operators: PublicAccount[] = []
+
+  /**
+   * @description Multisig account information of the target account.
+   */
+  public multisigInfo: MultisigAccountInfo | undefined
+
+  /**
+   * @description The operators quorum policy of said token.
+   */
+  public quorumPolicy: QuorumPolicy | undefined
+
+  /**
+   * @description Mosaic information.
+   */
+  public mosaicInfo: MosaicInfo | undefined
+
+  /**
+   * @description Partition records of said token.
+   */
+  public partitions: TokenPartition[] = []
+
+  /**
+   * @description The partition accounts metadata
+   */
+  public partitionMetadata: {[address: string]: PartitionMetadata} = {}
+
+  /**
+   * @description Closed partition records of said token.
+   */
+  public closedPartitions: TokenPartition[] = []
+
+  /**
+   * @description The mosaic balances of accounts
+   */
+  public balances: {[address: string]: Mosaic[]} = {}
+
+  /**
+   * @description The swap locks of said token
+   */
+  public swapLocks: SwapLock[] = []
+
+  /**
+   * @description The user roles of said token
+   */
+  public roles: RoleAssignment[] = []
+
+  /**
+   * @description The end height of the root namespace (undefined for eternal namespaces)
+   */
+  public namespaceEndHeight: UInt64 | undefined
+
+  /**
+   * @description The notifications issued by the target account
+   */
+  public notifications: Notification[] = []
+
+  /**
+   * @description The token locker accounts
+   */
+  public lockers: PublicAccount[] = []
+
+  /**
+   * @description The vesting schedules of token locker accounts
+   */
+  public vestingSchedules: {[address: string]: VestingSchedule} = {}
+
+  /**
+   * @description The securities metadata
+   */
+  public metadata: SecuritiesMetadata | undefined
+
+  /**
+   * @description The securities restrictions
+   */
+  public restrictions: SecuritiesRestrictions | undefined
+
+  /**
+   * Create an in-memory state provider from a JSON fixture
+   * that describes the state of token `tokenId`.
+   *
+   * @param   {TokenIdentifier}           tokenId
+   * @param   {string|TokenStateFixture}  json
+   * @return  {InMemoryStateProvider}
+   */
+  public static fromJSON(
+    tokenId: TokenIdentifier,
+    json: string | TokenStateFixture,
+  ): InMemoryStateProvider {
+    const fixture: TokenStateFixture = typeof json === 'string'
+      ? JSON.parse(json)
+      : json
+
+    const provider = new InMemoryStateProvider()
+    const networkType = tokenId.target.address.networkType
+    const toAccount = (publicKey: string) => PublicAccount.createFromPublicKey(publicKey, networkType)
+
+    // read chain height
+    provider.height = UInt64.fromUint(fixture.height || 1)
+    provider.timestamp = fixture.timestamp || 0
+
+    // read operators and partitions
+    provider.operators = (fixture.operators || []).map(toAccount)
+
+    // :note: the quorum defaults to all operators for minApproval and all except one for minRemoval
+    if (provider.operators.length) {
+      const quorum = fixture.quorum || {
+        minApproval: provider.operators.length,
+        minRemoval: provider.operators.length - 1,
+      }
+
+      provider.multisigInfo = new MultisigAccountInfo(
+        tokenId.target,
+        quorum.minApproval,
+        quorum.minRemoval,
+        provider.operators,
+        [],
+      )
+    }
+
+    if (undefined !== fixture.policy) {
+      provider.quorumPolicy = new QuorumPolicy(fixture.policy.approval, fixture.policy.removal)
+    }
+
+    provider.partitions = (fixture.partitions || []).map(
+      p => new TokenPartition(p.name, toAccount(p.owner), toAccount(p.account), p.amount, p.nonce || 0)
+    )
+
+    provider.closedPartitions = (fixture.closedPartitions || []).map(
+      p => new TokenPartition(p.name, toAccount(p.owner), toAccount(p.account), 0)
+    )
+
+    // read partition accounts metadata
+    provider.partitions.forEach(p => {
+      provider.partitionMetadata[p.account.address.plain()] = new PartitionMetadata(
+        p.name,
+        p.owner.address.plain(),
+        p.nonce,
+      )
+    })
+
+    // read mosaic information
+    if (undefined !== fixture.mosaic) {
+      provider.mosaicInfo = new MosaicInfo(
+        tokenId.toMosaicId(),
+        UInt64.fromUint(fixture.mosaic.supply),
+        UInt64.fromUint(fixture.mosaic.height || 1),
+        tokenId.target,
+        fixture.mosaic.revision || 1,
+        new MosaicFlags(undefined !== fixture.mosaic.flags ? fixture.mosaic.flags : 5), // always non-transferable.
+        fixture.mosaic.divisibility || 0,
+        UInt64.fromUint(fixture.mosaic.duration || 0),
+      )
+    }
+
+    // read metadata
+    if (undefined !== fixture.metadata) {
+      provider.metadata = new SecuritiesMetadata(
+        fixture.metadata.mic || '',
+        fixture.metadata.isin || '',
+        fixture.metadata.classification || '',
+        fixture.metadata.website || '',
+        fixture.metadata.sector || '',
+        fixture.metadata.industry || '',
+        fixture.metadata.customMetadata || {},
+      )
+    }
+
+    // read restrictions
+    if (undefined !== fixture.restrictions) {
+      provider.restrictions = new SecuritiesRestrictions(fixture.restrictions)
+    }
+
+    // read mosaic balances
+    const balances = fixture.balances || {}
+    Object.keys(balances).forEach(publicKey => {
+      provider.balances[toAccount(publicKey).address.plain()] = Object.keys(balances[publicKey]).map(
+        mosaicId => new Mosaic(new MosaicId(mosaicId), UInt64.fromUint(balances[publicKey][mosaicId]))
+      )
+    })
+
+    // read swap locks
+    provider.swapLocks = (fixture.swapLocks || []).map(l => new SwapLock(
+      l.secret.toUpperCase(),
+      toAccount(l.partition).address,
+      toAccount(l.recipient).address,
+      l.amount,
+      UInt64.fromUint(l.height),
+      UInt64.fromUint(l.duration),
+      l.claimed || false,
+      l.refunded || false,
+    ))
+
+    // read user roles
+    provider.roles = (fixture.roles || []).map(
+      r => new RoleAssignment(Address.createFromRawAddress(r.address), r.role)
+    )
+
+    // read root namespace expiry
+    if (undefined !== fixture.namespace && undefined !== fixture.namespace.endHeight) {
+      provider.namespaceEndHeight = UInt64.fromUint(fixture.namespace.endHeight)
+    }
+
+    // read notifications
+    provider.notifications = (fixture.notifications || []).map(n => new Notification(
+      Address.createFromRawAddress(n.recipient),
+      n.message,
+      new NotificationProof(n.hash || ''),
+    ))
+
+    // read vesting schedules
+    const schedules = fixture.vestingSchedules || {}
+    provider.lockers = Object.keys(schedules).map(toAccount)
+    provider.lockers.forEach(locker => {
+      provider.vestingSchedules[locker.address.plain()] = VestingSchedule.fromMetadata(
+        JSON.stringify(schedules[locker.publicKey])
+      )
+    })
+
+    return provider
+  }
+
+  /**
+   * Read the current chain height.
+   *
+   * @see {TokenStateProvider.getChainHeight}
+   * @return  {Promise<UInt64>}
+   */
+  public async getChainHeight(): Promise<UInt64> {
+    return this.height
+  }
+
+  /**
+   * Read the chain time at the current chain height.
+   *
+   * @see {TokenStateProvider.getChainTimestamp}
+   * @return  {Promise<number>}
+   */
+  public async getChainTimestamp(): Promise<number> {
+    return this.timestamp
+  }
+
+  /**
+   * Read the list of operators of a token.
+   *
+   * @see {TokenStateProvider.getOperators}
+   * @return  {Promise<PublicAccount[]>}
+   */
+  public async getOperators(): Promise<PublicAccount[]> {
+    return this.operators
+  }
+
+  /**
+   * Read the multisig account information of the target account.
+   *
+   * @see {TokenStateProvider.getMultisigInfo}
+   * @return  {Promise<MultisigAccountInfo|undefined>}
+   */
+  public async getMultisigInfo(): Promise<MultisigAccountInfo | undefined> {
+    return this.multisigInfo
+  }
+
+  /**
+   * Read the operators quorum policy of said token.
+   *
+   * @see {TokenStateProvider.getQuorumPolicy}
+   * @return  {Promise<QuorumPolicy|undefined>}
+   */
+  public async getQuorumPolicy(): Promise<QuorumPolicy | undefined> {
+    return this.quorumPolicy
+  }
+
+  /**
+   * Read the mosaic information of a token. Only the mosaic of
+   * the seeded token is known.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<MosaicInfo|undefined>}
+   */
+  public async getMosaicInfo(
+    tokenId: TokenIdentifier,
+  ): Promise<MosaicInfo | undefined> {
+    if (undefined === this.mosaicInfo || !this.mosaicInfo.id.equals(tokenId.toMosaicId())) {
+      return undefined
+    }
+
+    return this.mosaicInfo
+  }
+
+  /**
+   * Read the token holder partitions of a token.
+   *
+   * @see {TokenStateProvider.getPartitions}
+   * @return  {Promise<TokenPartition[]>}
+   */
+  public async getPartitions(): Promise<TokenPartition[]> {
+    return this.partitions
+  }
+
+  /**
+   * Read the token holder partitions that were closed.
+   *
+   * @see {TokenStateProvider.getClosedPartitions}
+   * @return  {Promise<TokenPartition[]>}
+   */
+  public async getClosedPartitions(): Promise<TokenPartition[]> {
+    return this.closedPartitions
+  }
+
+  /**
+   * Read the `NAME`, `OWNER` and `NONCE` metadata of a partition account.
+   *
+   * @param   {PublicAccount}   account     The partition account.
+   * @return  {Promise<PartitionMetadata|undefined>}
+   */
+  public async getPartitionMetadata(
+    account: PublicAccount,
+  ): Promise<PartitionMetadata | undefined> {
+    return this.partitionMetadata[account.address.plain()]
+  }
+
+  /**
+   * Read the mosaic balances of accounts.
+   *
+   * @param   {PublicAccount[]} accounts    The accounts of which balances are read.
+   * @return  {Promise<{[address: string]: Mosaic[]}>}
+   */
+  public async getBalances(
+    accounts: PublicAccount[],
+  ): Promise<{[address: string]: Mosaic[]}> {
+    const balances: {[address: string]: Mosaic[]} = {}
+    accounts.filter(a => a.address.plain() in this.balances).forEach(a => {
+      balances[a.address.plain()] = this.balances[a.address.plain()]
+    })
+
+    return balances
+  }
+
+  /**
+   * Read the swap locks of a token.
+   *
+   * @see {TokenStateProvider.getSwapLocks}
+   * @return  {Promise<SwapLock[]>}
+   */
+  public async getSwapLocks(): Promise<SwapLock[]> {
+    return this.swapLocks
+  }
+
+  /**
+   * Read the user roles of a token.
+   *
+   * @see {TokenStateProvider.getRoles}
+   * @return  {Promise<RoleAssignment[]>}
+   */
+  public async getRoles(): Promise<RoleAssignment[]> {
+    return this.roles
+  }
+
+  /**
+   * Read the notifications issued by the target account, optionally
+   * filtered by `recipient`. Seeded messages exclude the descriptor.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @param   {Address}         recipient   (Optional) The recipient of notifications.
+   * @return  {Promise<Notification[]>}
+   */
+  public async getNotifications(
+    target: PublicAccount,
+    descriptor: string,
+    recipient?: Address,
+  ): Promise<Notification[]> {
+    return this.notifications.filter(
+      n => undefined === recipient || (n.target instanceof Address && n.target.equals(recipient))
+    )
+  }
+
+  /**
+   * Read the expiry of the root namespace and of the mosaic of a token.
+   * Mosaics with a duration of `0` never expire.
+   *
+   * @see {TokenStateProvider.getExpiry}
+   * @return  {Promise<TokenExpiry>}
+   */
+  public async getExpiry(): Promise<TokenExpiry> {
+    const mosaicEndHeight = undefined !== this.mosaicInfo && this.mosaicInfo.duration.compact() > 0
+      ? this.mosaicInfo.height.add(this.mosaicInfo.duration)
+      : undefined
+
+    return new TokenExpiry(this.height, this.namespaceEndHeight, mosaicEndHeight)
+  }
+
+  /**
+   * Read the balances of token holder partitions and of the target account.
+   * The seeded state has no history such that it is reported at `height`,
+   * the part of the supply that is not owned by partitions is the treasury.
+   * Closed partitions of the seeded state are closed at `height`.
+   *
+   * @param   {TokenIdentifier}   tokenId     The token identifier.
+   * @param   {PublicAccount}     target      The deterministic account that represents the token.
+   * @param   {TokenPartition[]}  partitions  The token holder partitions.
+   * @param   {UInt64}            height      The snapshot block height.
+   * @return  {Promise<CapTableSnapshot>}
+   */
+  public async getSnapshot(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    partitions: TokenPartition[],
+    height: UInt64,
+  ): Promise<CapTableSnapshot> {
+    const supply = undefined !== this.mosaicInfo ? this.mosaicInfo.supply.compact() : 0
+    const open = partitions.filter(p => !this.closedPartitions.some(c => c.account.address.equals(p.account.address)))
+    const owned = open.reduce((sum, p) => sum + p.amount, 0)
+    return new CapTableSnapshot(tokenId, height, Math.max(0, supply - owned), open)
+  }
+
+  /**
+   * Read the token locker accounts that hold vesting schedules.
+   *
+   * @see {TokenStateProvider.getLockers}
+   * @return  {Promise<PublicAccount[]>}
+   */
+  public async getLockers(): Promise<PublicAccount[]> {
+    return this.lockers
+  }
+
+  /**
+   * Read the vesting schedule attached to a token locker account.
+   *
+   * @param   {PublicAccount}   locker      The token locker account.
+   * @return  {Promise<VestingSchedule|undefined>}
+   */
+  public async getVestingSchedule(
+    locker: PublicAccount,
+  ): Promise<VestingSchedule | undefined> {
+    return this.vestingSchedules[locker.address.plain()]
+  }
+
+  /**
+   * Read the securities metadata of a token.
+   *
+   * @see {TokenStateProvider.getMetadata}
+   * @return  {Promise<SecuritiesMetadata|undefined>}
+   */
+  public async getMetadata(): Promise<SecuritiesMetadata | undefined> {
+    return this.metadata
+  }
+
+  /**
+   * Read the securities restrictions of a token.
+   *
+   * @see {TokenStateProvider.getRestrictions}
+   * @return  {Promise<SecuritiesRestrictions|undefined>}
+   */
+  public async getRestrictions(): Promise<SecuritiesRestrictions | undefined> {
+    return this.restrictions
+  }
+}
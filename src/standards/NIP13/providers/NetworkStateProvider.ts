@@ -0,0 +1,435 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  Deadline,
+  KeyGenerator,
+  Mosaic,
+  MosaicInfo,
+  MultisigAccountInfo,
+  PublicAccount,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Notification,
+  Service,
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { TokenStateProvider } from '../contracts/TokenStateProvider'
+import { SecuritiesMetadata } from '../models/SecuritiesMetadata'
+import { SecuritiesRestrictions } from '../models/SecuritiesRestrictions'
+import { PartitionMetadata } from '../models/PartitionMetadata'
+import { SwapLock } from '../models/SwapLock'
+import { RoleAssignment } from '../models/RoleAssignment'
+import { TokenExpiry } from '../models/TokenExpiry'
+import { CapTableSnapshot } from '../models/CapTableSnapshot'
+import { VestingSchedule } from '../models/VestingSchedule'
+import { QuorumPolicy } from '../models/QuorumPolicy'
+import { MultisigService } from '../services/MultisigService'
+import { MetadataService } from '../services/MetadataService'
+import { RestrictionService } from '../services/RestrictionService'
+import { PartitionService } from '../services/PartitionService'
+import { SwapService } from '../services/SwapService'
+import { RoleService } from '../services/RoleService'
+import { NotificationService } from '../services/NotificationService'
+import { ExpiryService } from '../services/ExpiryService'
+import { SnapshotService } from '../services/SnapshotService'
+import { VestingService } from '../services/VestingService'
+
+/**
+ * @class NetworkStateProvider
+ * @package NIP13/providers
+ * @since v0.5.3
+ * @description Class that describes a token state provider that reads
+ *              the token state from the network (REST).
+ */
+export class NetworkStateProvider extends Service implements TokenStateProvider {
+  /**
+   * Read the current chain height from the network.
+   *
+   * @return  {Promise<UInt64>}
+   */
+  public async getChainHeight(): Promise<UInt64> {
+    const chainHttp = this.context.network.factoryHttp.createChainRepository()
+    return chainHttp.getBlockchainHeight().toPromise()
+  }
+
+  /**
+   * Read the chain time at block `height` from the network. Block
+   * timestamps are counted from the nemesis block.
+   *
+   * @param   {UInt64}          height      The block height.
+   * @return  {Promise<number>}
+   */
+  public async getChainTimestamp(
+    height: UInt64,
+  ): Promise<number> {
+    const blockHttp = this.context.network.factoryHttp.createBlockRepository()
+    const block = await blockHttp.getBlockByHeight(height).toPromise()
+    return block.timestamp.compact() + Deadline.timestampNemesisBlock * 1000
+  }
+
+  /**
+   * Read the list of operators of a token from the
+   * multisig graph of the target account.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<PublicAccount[]>}
+   */
+  public async getOperators(
+    target: PublicAccount,
+  ): Promise<PublicAccount[]> {
+    // initialize REST
+    const multisig = new MultisigService(this.context)
+    const multisigHttp = this.context.network.factoryHttp.createMultisigRepository()
+
+    // consolidate/reduce graph
+    const graph = await multisigHttp.getMultisigAccountGraphInfo(target.address).toPromise()
+    return multisig.getMultisigAccountInfoFromGraph(graph).map(
+      m => m.cosignatories
+    ).reduce((prev, it) => prev.concat(it))
+  }
+
+  /**
+   * Read the multisig account information of the target account
+   * from the network. Accounts that are not multisig accounts are
+   * reported as `undefined`, other failures are rethrown.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<MultisigAccountInfo|undefined>}
+   */
+  public async getMultisigInfo(
+    target: PublicAccount,
+  ): Promise<MultisigAccountInfo | undefined> {
+    // initialize REST
+    const multisigHttp = this.context.network.factoryHttp.createMultisigRepository()
+
+    // read multisig account
+    try {
+      return await multisigHttp.getMultisigAccountInfo(target.address).toPromise()
+    }
+    catch (f) {
+      if (NetworkStateProvider.isNotFound(f)) {
+        return undefined
+      }
+
+      throw f
+    }
+  }
+
+  /**
+   * Read the operators quorum policy that is attached to the `Quorum_Policy`
+   * metadata of the target account from the network. Tokens without said
+   * metadata are reported as `undefined`, other failures are rethrown.
+   *
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<QuorumPolicy|undefined>}
+   */
+  public async getQuorumPolicy(
+    target: PublicAccount,
+  ): Promise<QuorumPolicy | undefined> {
+    // initialize REST
+    const metadataHttp = this.context.network.factoryHttp.createMetadataRepository()
+
+    // read metadata entry issued by the target account
+    try {
+      const metadata = await metadataHttp.getAccountMetadataByKeyAndSender(
+        target.address,
+        KeyGenerator.generateUInt64Key('Quorum_Policy').toHex(),
+        target.publicKey,
+      ).toPromise()
+
+      return QuorumPolicy.fromMetadata(metadata.metadataEntry.value)
+    }
+    catch (f) {
+      if (NetworkStateProvider.isNotFound(f)) {
+        return undefined
+      }
+
+      throw f
+    }
+  }
+
+  /**
+   * Read the mosaic information of a token from the network. Unknown
+   * mosaics are reported as `undefined`, other failures are rethrown.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<MosaicInfo|undefined>}
+   */
+  public async getMosaicInfo(
+    tokenId: TokenIdentifier,
+  ): Promise<MosaicInfo | undefined> {
+    // initialize REST
+    const mosaicHttp = this.context.network.factoryHttp.createMosaicRepository()
+
+    // read mosaic
+    try {
+      return await mosaicHttp.getMosaic(tokenId.toMosaicId()).toPromise()
+    }
+    catch (f) {
+      if (NetworkStateProvider.isNotFound(f)) {
+        return undefined
+      }
+
+      throw f
+    }
+  }
+
+  /**
+   * Returns whether the REST error \a f is a *not found* (HTTP 404) error.
+   *
+   * @param   {Error}   f
+   * @return  {boolean}
+   */
+  protected static isNotFound(
+    f: Error,
+  ): boolean {
+    try {
+      return 404 === JSON.parse(f.message).statusCode
+    }
+    catch (e) {
+      return false
+    }
+  }
+
+  /**
+   * Read the token holder partitions of a token from the network.
+   *
+   * @see {PartitionService.getPartitionsFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {PublicAccount[]} operators   The list of operators of said token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @return  {Promise<TokenPartition[]>}
+   */
+  public async getPartitions(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    operators: PublicAccount[],
+    descriptor: string,
+  ): Promise<TokenPartition[]> {
+    const service = new PartitionService(this.context)
+    return service.getPartitionsFromNetwork(tokenId, target, operators, descriptor)
+  }
+
+  /**
+   * Read the token holder partitions of a token that were closed from the network.
+   *
+   * @see {PartitionService.getClosedPartitionsFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {PublicAccount[]} operators   The list of operators of said token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @return  {Promise<TokenPartition[]>}
+   */
+  public async getClosedPartitions(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    operators: PublicAccount[],
+    descriptor: string,
+  ): Promise<TokenPartition[]> {
+    const service = new PartitionService(this.context)
+    return service.getClosedPartitionsFromNetwork(tokenId, target, operators, descriptor)
+  }
+
+  /**
+   * Read the `NAME`, `OWNER` and `NONCE` metadata of a partition account from the network.
+   *
+   * @see {PartitionService.getPartitionMetadataFromNetwork}
+   * @param   {PublicAccount}   account     The partition account.
+   * @return  {Promise<PartitionMetadata|undefined>}
+   */
+  public async getPartitionMetadata(
+    account: PublicAccount,
+  ): Promise<PartitionMetadata | undefined> {
+    const service = new PartitionService(this.context)
+    return service.getPartitionMetadataFromNetwork(account)
+  }
+
+  /**
+   * Read the mosaic balances of accounts from the network.
+   *
+   * @param   {PublicAccount[]} accounts    The accounts of which balances are read.
+   * @return  {Promise<{[address: string]: Mosaic[]}>}
+   */
+  public async getBalances(
+    accounts: PublicAccount[],
+  ): Promise<{[address: string]: Mosaic[]}> {
+    const balances: {[address: string]: Mosaic[]} = {}
+    if (!accounts.length) {
+      return balances
+    }
+
+    // initialize REST
+    const accountHttp = this.context.network.factoryHttp.createAccountRepository()
+
+    // read accounts information
+    const infos = await accountHttp.getAccountsInfo(accounts.map(a => a.address)).toPromise()
+    infos.forEach(info => {
+      balances[info.address.plain()] = info.mosaics
+    })
+    return balances
+  }
+
+  /**
+   * Read the swap locks of a token from the network.
+   *
+   * @see {SwapService.getLocksFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<SwapLock[]>}
+   */
+  public async getSwapLocks(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<SwapLock[]> {
+    const service = new SwapService(this.context)
+    return service.getLocksFromNetwork(tokenId, target)
+  }
+
+  /**
+   * Read the user roles of a token from the network.
+   *
+   * @see {RoleService.getRolesFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<RoleAssignment[]>}
+   */
+  public async getRoles(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<RoleAssignment[]> {
+    const service = new RoleService(this.context)
+    return service.getRolesFromNetwork(tokenId, target)
+  }
+
+  /**
+   * Read the notifications issued by the target account of a token from the network.
+   *
+   * @see {NotificationService.getNotificationsFromNetwork}
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @param   {string}          descriptor  The token command descriptor used as a marker.
+   * @param   {Address}         recipient   (Optional) The recipient of notifications.
+   * @return  {Promise<Notification[]>}
+   */
+  public async getNotifications(
+    target: PublicAccount,
+    descriptor: string,
+    recipient?: Address,
+  ): Promise<Notification[]> {
+    const service = new NotificationService(this.context)
+    return service.getNotificationsFromNetwork(target, descriptor, recipient)
+  }
+
+  /**
+   * Read the expiry of the root namespace and of the mosaic of a token from the network.
+   *
+   * @see {ExpiryService.getExpiryFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {string}          name        The token namespace name (e.g. "company.shares").
+   * @return  {Promise<TokenExpiry>}
+   */
+  public async getExpiry(
+    tokenId: TokenIdentifier,
+    name: string,
+  ): Promise<TokenExpiry> {
+    const service = new ExpiryService(this.context)
+    return service.getExpiryFromNetwork(tokenId, name)
+  }
+
+  /**
+   * Read the balances of token holder partitions and of the target account at
+   * block `height` by replaying the transfer history from the network.
+   *
+   * @see {SnapshotService.getSnapshotFromNetwork}
+   * @param   {TokenIdentifier}   tokenId     The token identifier.
+   * @param   {PublicAccount}     target      The deterministic account that represents the token.
+   * @param   {TokenPartition[]}  partitions  The token holder partitions.
+   * @param   {UInt64}            height      The snapshot block height.
+   * @return  {Promise<CapTableSnapshot>}
+   */
+  public async getSnapshot(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    partitions: TokenPartition[],
+    height: UInt64,
+  ): Promise<CapTableSnapshot> {
+    const service = new SnapshotService(this.context)
+    return service.getSnapshotFromNetwork(tokenId, target, partitions, height)
+  }
+
+  /**
+   * Read the token locker accounts that hold vesting schedules of a token from the network.
+   *
+   * @see {VestingService.getLockersFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {PublicAccount}   target      The deterministic account that represents the token.
+   * @return  {Promise<PublicAccount[]>}
+   */
+  public async getLockers(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<PublicAccount[]> {
+    const service = new VestingService(this.context)
+    return service.getLockersFromNetwork(tokenId, target)
+  }
+
+  /**
+   * Read the vesting schedule attached to a token locker account from the network.
+   *
+   * @see {VestingService.getScheduleFromNetwork}
+   * @param   {PublicAccount}   locker      The token locker account.
+   * @return  {Promise<VestingSchedule|undefined>}
+   */
+  public async getVestingSchedule(
+    locker: PublicAccount,
+  ): Promise<VestingSchedule | undefined> {
+    const service = new VestingService(this.context)
+    return service.getScheduleFromNetwork(locker)
+  }
+
+  /**
+   * Read the securities metadata of a token from the network.
+   *
+   * @see {MetadataService.getMetadataFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<SecuritiesMetadata|undefined>}
+   */
+  public async getMetadata(
+    tokenId: TokenIdentifier,
+  ): Promise<SecuritiesMetadata | undefined> {
+    const service = new MetadataService(this.context)
+    return service.getMetadataFromNetwork(tokenId)
+  }
+
+  /**
+   * Read the securities restrictions of a token from the network.
+   *
+   * @see {RestrictionService.getRestrictionsFromNetwork}
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @return  {Promise<SecuritiesRestrictions|undefined>}
+   */
+  public async getRestrictions(
+    tokenId: TokenIdentifier,
+  ): Promise<SecuritiesRestrictions | undefined> {
+    const service = new RestrictionService(this.context)
+    return service.getRestrictionsFromNetwork(tokenId)
+  }
+}
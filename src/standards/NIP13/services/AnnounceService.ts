@@ -0,0 +1,117 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Account,
+  HashLockTransaction,
+  Mosaic,
+  SignedTransaction,
+  TransactionType,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import { Service } from '../../../../index'
+import { Announcer } from '../contracts/Announcer'
+import { AnnounceEvent } from '../models/AnnounceEvent'
+import { FeeService } from './FeeService'
+
+/**
+ * @class AnnounceService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token command contract announcements.
+ */
+export class AnnounceService extends Service {
+  /**
+   * Create and sign the hash lock transaction for `signedTransaction`. The lock
+   * amount and duration are read from the network configuration. The deadline
+   * and max fee are read from the transaction parameters of the context, the
+   * max fee is computed with `feeMultiplier` only if it is not set.
+   *
+   * @param   {SignedTransaction} signedTransaction The signed aggregate bonded.
+   * @param   {Account}           signer            The hash lock signer.
+   * @param   {number}            feeMultiplier     (Optional) Defaults to a local stand-in.
+   * @return  {SignedTransaction}
+   */
+  public createHashLock(
+    signedTransaction: SignedTransaction,
+    signer: Account,
+    feeMultiplier: number = FeeService.DEFAULT_FEE_MULTIPLIER,
+  ): SignedTransaction {
+    const hashLock = HashLockTransaction.create(
+      this.context.parameters.deadline,
+      new Mosaic(this.context.network.feeMosaicId, UInt64.fromUint(this.context.network.lockAmount)),
+      UInt64.fromUint(this.context.network.lockDuration),
+      signedTransaction,
+      this.context.network.networkType,
+      this.context.parameters.maxFee,
+    )
+
+    return signer.sign(
+      undefined !== this.context.parameters.maxFee ? hashLock : hashLock.setMaxFee(feeMultiplier),
+      this.context.network.generationHash,
+    )
+  }
+
+  /**
+   * Announce a signed contract using `announcer`. Aggregate bonded
+   * contracts are preceded by a hash lock which is signed by `signer`
+   * and confirmed before the aggregate is announced.
+   *
+   * @param   {SignedTransaction}   signedTransaction The signed contract.
+   * @param   {Account}             signer            The hash lock signer.
+   * @param   {Announcer}           announcer
+   * @param   {Function|undefined}  onProgress        (Optional) Progress event listener.
+   * @param   {number}              feeMultiplier     (Optional) Hash lock fee multiplier.
+   * @return  {Promise<AnnounceEvent[]>}
+   */
+  public async announce(
+    signedTransaction: SignedTransaction,
+    signer: Account,
+    announcer: Announcer,
+    onProgress?: (event: AnnounceEvent) => void,
+    feeMultiplier?: number,
+  ): Promise<AnnounceEvent[]> {
+    const events: AnnounceEvent[] = []
+    const emit = (event: AnnounceEvent) => {
+      events.push(event)
+      if (undefined !== onProgress) {
+        onProgress(event)
+      }
+    }
+
+    // aggregate complete contracts do not need a hash lock
+    if (TransactionType.AGGREGATE_BONDED !== signedTransaction.type) {
+      await announcer.announce(signedTransaction)
+      emit(new AnnounceEvent('aggregate-announced', signedTransaction.hash))
+      return events
+    }
+
+    // Step 1) sign hash lock
+    const signedLock = this.createHashLock(signedTransaction, signer, feeMultiplier)
+    emit(new AnnounceEvent('lock-signed', signedLock.hash))
+
+    // Step 2) announce hash lock and wait for confirmation
+    await announcer.announce(signedLock)
+    emit(new AnnounceEvent('lock-confirmed', signedLock.hash))
+
+    // Step 3) announce aggregate bonded
+    await announcer.announceAggregateBonded(signedTransaction)
+    emit(new AnnounceEvent('aggregate-announced', signedTransaction.hash))
+
+    return events
+  }
+}
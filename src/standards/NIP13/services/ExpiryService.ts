@@ -0,0 +1,89 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  MosaicInfo,
+  NamespaceId,
+  NamespaceInfo,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Service,
+  TokenIdentifier,
+} from '../../../../index'
+import { TokenExpiry } from '../models/TokenExpiry'
+
+/**
+ * @class ExpiryService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token namespace and mosaic expiry.
+ */
+export class ExpiryService extends Service {
+  /**
+   * Read the expiry of the root namespace and the mosaic of a token
+   * from network.
+   *
+   * @param   {TokenIdentifier} tokenId     The token identifier.
+   * @param   {string}          name        The token namespace name (e.g. "company.shares").
+   * @return  {Promise<TokenExpiry>}
+   */
+  public async getExpiryFromNetwork(
+    tokenId: TokenIdentifier,
+    name: string,
+  ): Promise<TokenExpiry> {
+    // initialize REST
+    const chainHttp = this.context.network.factoryHttp.createChainRepository()
+    const mosaicHttp = this.context.network.factoryHttp.createMosaicRepository()
+    const namespaceHttp = this.context.network.factoryHttp.createNamespaceRepository()
+
+    // read chain height, mosaic and root namespace
+    const height = await chainHttp.getBlockchainHeight().toPromise()
+    const mosaicInfo = await mosaicHttp.getMosaic(tokenId.toMosaicId()).toPromise()
+    const namespaceInfo = await namespaceHttp.getNamespace(new NamespaceId(name.split('.')[0])).toPromise()
+
+    return this.getExpiry(height, mosaicInfo, namespaceInfo)
+  }
+
+  /**
+   * Get the expiry of a token given the current chain height, its
+   * mosaic information and its root namespace information. Mosaics
+   * with a duration of `0` never expire.
+   *
+   * @param   {UInt64}                    height
+   * @param   {MosaicInfo}                mosaicInfo
+   * @param   {NamespaceInfo}             namespaceInfo
+   * @return  {TokenExpiry}
+   */
+  public getExpiry(
+    height: UInt64,
+    mosaicInfo: MosaicInfo,
+    namespaceInfo: NamespaceInfo,
+  ): TokenExpiry {
+    // eternal mosaics have a duration of 0
+    const mosaicEndHeight = mosaicInfo.duration.compact() > 0
+      ? mosaicInfo.height.add(mosaicInfo.duration)
+      : undefined
+
+    // eternal namespaces end at the maximum height
+    const namespaceEndHeight = !namespaceInfo.endHeight.equals(UInt64.fromHex('FFFFFFFFFFFFFFFF'))
+      ? namespaceInfo.endHeight
+      : undefined
+
+    return new TokenExpiry(height, namespaceEndHeight, mosaicEndHeight)
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AggregateTransaction,
+  Deadline,
+  HashLockTransaction,
+  Mosaic,
+  PublicAccount,
+  SignedTransaction,
+  TransactionMapping,
+  TransactionType,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  CommandOption,
+  Service,
+} from '../../../../index'
+import { AbstractCommand } from '../commands/AbstractCommand'
+import { FeeEstimate } from '../models/FeeEstimate'
+
+/**
+ * @class FeeService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token command fees.
+ */
+export class FeeService extends Service {
+  /**
+   * @description Local stand-in fee multiplier used when no value is supplied.
+   */
+  public static readonly DEFAULT_FEE_MULTIPLIER: number = 100
+
+  /**
+   * Read the average fee multiplier from network.
+   *
+   * @return {Promise<number>}
+   */
+  public async getFeeMultiplierFromNetwork(): Promise<number> {
+    // initialize REST
+    const networkHttp = this.context.network.factoryHttp.createNetworkRepository()
+
+    // read fee statistics
+    const fees = await networkHttp.getTransactionFees().toPromise()
+    return fees.averageFeeMultiplier || FeeService.DEFAULT_FEE_MULTIPLIER
+  }
+
+  /**
+   * Estimate the fees for the execution of `command` by `actor`. The
+   * aggregate size includes the cosignatures of the required signers
+   * set (except `actor` who signs the aggregate).
+   *
+   * @param   {AbstractCommand}   command
+   * @param   {PublicAccount}     actor
+   * @param   {CommandOption[]}   argv
+   * @param   {number}            feeMultiplier (Optional) Defaults to a local stand-in.
+   * @return  {FeeEstimate}
+   */
+  public estimate(
+    command: AbstractCommand,
+    actor: PublicAccount,
+    argv?: CommandOption[],
+    feeMultiplier: number = FeeService.DEFAULT_FEE_MULTIPLIER,
+  ): FeeEstimate {
+    // create the contract
+    const result = command.execute(actor, argv)
+    const contract = TransactionMapping.createFromPayload(result.data) as AggregateTransaction
+
+    // count expected cosignatures (actor signs the aggregate)
+    const cosignatures = command.getRequiredSigners().filter(
+      s => s.publicKey !== actor.publicKey
+    ).length
+
+    // compute aggregate fee
+    const aggregate = contract.setMaxFeeForAggregate(feeMultiplier, cosignatures)
+    const size = contract.size + cosignatures * 96 // cosignature: version, signer, signature
+
+    // bonded aggregates must be preceded by a hash lock
+    let lockFee = UInt64.fromUint(0)
+    if (TransactionType.AGGREGATE_BONDED === contract.type) {
+      lockFee = UInt64.fromUint(this.getHashLockSize() * feeMultiplier)
+    }
+
+    return new FeeEstimate(size, cosignatures, feeMultiplier, aggregate.maxFee, lockFee)
+  }
+
+  /**
+   * Get the size of a hash lock transaction in bytes.
+   *
+   * @return {number}
+   */
+  protected getHashLockSize(): number {
+    // the hash lock size does not depend on the locked aggregate
+    const hashLock = HashLockTransaction.create(
+      Deadline.create(),
+      new Mosaic(this.context.network.feeMosaicId, UInt64.fromUint(0)),
+      UInt64.fromUint(0),
+      new SignedTransaction('', '0'.repeat(64), '', TransactionType.AGGREGATE_BONDED, this.context.network.networkType),
+      this.context.network.networkType,
+    )
+
+    return hashLock.size
+  }
+}
@@ -168,6 +168,29 @@ export namespace Derivation {
       }).join('/')
     }
 
+    /**
+     * @function NIP13.HDService.getPathForToken()
+     * @description Helper function to get the target account's derivation path of the token at \a index.
+     *              The token index shifts the ACCOUNT path level, index `0` is `PATH_NIP13`.
+     * @throws {FailureInvalidDerivationPath} On invalid token index provided.
+     */
+    public static getPathForToken = (
+      index: number = 0,
+    ): string => {
+      // :warning: hardened derivation index overflow at 2147483647 (2^31-1)
+      const account = parseInt(PATH_NIP13.split('/')[DerivationPathLevels.Account].replace(/'/, ''))
+      if (!Number.isInteger(index) || index < 0 || index + account > 2147483647) {
+        throw new FailureInvalidDerivationPath(`Invalid token index: ${index}`)
+      }
+
+      // first token uses the default NIP13 derivation path
+      if (0 === index) {
+        return PATH_NIP13
+      }
+
+      return HDService.incrementPathLevel(PATH_NIP13, DerivationPathLevels.Account, index)
+    }
+
     /**
      * @function NIP13.HDService.decrementPathLevel()
      * @description Helper function to decrement a derivation path level.
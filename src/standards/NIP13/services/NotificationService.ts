@@ -0,0 +1,83 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  PublicAccount,
+  Address,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Notification,
+  NotificationProof,
+  Service,
+} from '../../../../index'
+import { TransactionService } from './TransactionService'
+
+/**
+ * @class NotificationService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token notification features.
+ */
+export class NotificationService extends Service {
+  /**
+   * Read token notifications from network. Notifications MUST
+   * be sent by the target account and MUST be marked with the
+   * `notify` descriptor.
+   *
+   * @param {PublicAccount}         target      The deterministic account that represents the token.
+   * @param {string}                descriptor  The token command descriptor used as a marker.
+   * @param {Address|undefined}     recipient   (Optional) Only read notifications sent to this address.
+   * @return {Notification[]}
+   */
+  public async getNotificationsFromNetwork(
+    target: PublicAccount,
+    descriptor: string = '',
+    recipient?: Address,
+  ): Promise<Notification[]> {
+    // initialize APIs
+    const service = new TransactionService(
+      this.context.network.factoryHttp.createAccountRepository(),
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100, // pageSize
+    )
+
+    // Step 1) read transfers issued by target account
+    const transactions: TransferTransaction[] = await service.getOutgoingTransfers(
+      target.address,
+      undefined,
+      0, // no more than 1 block confirmation required
+    ).toPromise()
+
+    // Step 2) filter notification transfer transactions
+    const markedTransfers: TransferTransaction[] = transactions.filter(
+      tx => tx.message.payload.startsWith(descriptor)
+    ).filter(
+      tx => recipient === undefined || (tx.recipientAddress as Address).equals(recipient)
+    )
+
+    // Step 3) read notification message and proof
+    return markedTransfers.map(
+      tx => new Notification(
+        tx.recipientAddress as Address,
+        tx.message.payload.substr(descriptor.length), // take everything to the right of the descriptor
+        new NotificationProof(TransactionService.getTransactionHash(tx) || ''),
+      ))
+  }
+}
@@ -19,6 +19,8 @@ import {
   AccountInfo,
   TransferTransaction,
   Address,
+  KeyGenerator,
+  Metadata,
 } from 'symbol-sdk'
 
 // internal dependencies
@@ -29,6 +31,7 @@ import {
 } from '../../../../index'
 import { TransactionService } from './TransactionService'
 import { MultisigService } from './MultisigService'
+import { PartitionMetadata } from '../models/PartitionMetadata'
 
 /**
  * @class PartitionService
@@ -55,8 +58,6 @@ export class PartitionService extends Service {
   ): Promise<TokenPartition[]> {
     // initialize APIs
     const accountHttp = this.context.network.factoryHttp.createAccountRepository()
-    const multisigHttp = this.context.network.factoryHttp.createMultisigRepository()
-    const multisig = new MultisigService(this.context)
     const service = new TransactionService(
       accountHttp,
       this.context.network.factoryHttp.createChainRepository(),
@@ -80,9 +81,12 @@ export class PartitionService extends Service {
       tx => tx.message.payload.startsWith(descriptor)
     )
 
+    // closed partitions are excluded (unless created again)
+    const closed = this.getClosedPartitions(tokenId, transactions, descriptor)
+
     // read recipients to find partition accounts
     const addresses: Address[] = markedTransfers.map(t => t.recipientAddress as Address).filter(
-      addr => !addr.equals(target.address)
+      addr => !addr.equals(target.address) && !closed.includes(addr.plain())
     )
 
     // Step 2) read partition accounts information from network
@@ -92,14 +96,8 @@ export class PartitionService extends Service {
     for (let i = 0, m = infos.length; i < m; i ++) {
       const accountInfo: AccountInfo = infos[i]
 
-      // Step 3.1) get partition account multisig graph
-      const graph = await multisigHttp.getMultisigAccountGraphInfo(accountInfo.address).toPromise()
-      const owner: PublicAccount = multisig.getMultisigAccountInfoFromGraph(graph).map(
-        (cosig: MultisigAccountInfo) => cosig.cosignatories
-      ).reduce((prev, it) => {
-        const ops = operators.map(o => o.address.plain())
-        return prev.concat(it.filter(c => !ops.includes(c.address.plain())))
-      }, [])[0] // force one
+      // Step 3.1) get partition account owner from multisig graph
+      const owner = await this.getPartitionOwnerFromNetwork(accountInfo.address, operators)
 
       // Step 3.2) fetch partition account incoming transaction
       const lastMarker = markedTransfers.filter(
@@ -128,15 +126,178 @@ export class PartitionService extends Service {
         }
       }
 
-      // Step 3.5) register partition
+      // Step 3.5) read derivation nonce from `NONCE` metadata
+      const metadata = await this.getPartitionMetadataFromNetwork(accountInfo.publicAccount)
+
+      // Step 3.6) register partition
       partitions.push(new TokenPartition(
         label,
         owner,
         accountInfo.publicAccount,
         partitionAmount,
+        undefined !== metadata ? metadata.nonce : 0,
       ))
     }
 
     return partitions
   }
+
+  /**
+   * Read token partitions that were closed with the `ClosePartition`
+   * command from network. Closed partitions hold no shares and their
+   * names are read from the closing marker.
+   *
+   * @param {TokenIdentifier}       tokenId     The token identifier.
+   * @param {PublicAccount}         target      The deterministic account that represents the token.
+   * @param {PublicAccount[]}       operators   The list of operators of said token.
+   * @param {string}                descriptor  The token command descriptor used as a marker.
+   * @return {TokenPartition[]}
+   */
+  public async getClosedPartitionsFromNetwork(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    operators: PublicAccount[],
+    descriptor: string = '',
+  ): Promise<TokenPartition[]> {
+    // initialize APIs
+    const accountHttp = this.context.network.factoryHttp.createAccountRepository()
+    const service = new TransactionService(
+      accountHttp,
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100
+    )
+
+    // Step 1) read transfers to find closed partition accounts
+    const transactions: TransferTransaction[] = await service.getOutgoingTransfers(
+      target.address,
+      undefined,
+      0, // no more than 1 block confirmation required
+    ).toPromise()
+
+    const closed = this.getClosedPartitions(tokenId, transactions, descriptor)
+    if (!closed.length) {
+      return []
+    }
+
+    // Step 2) read partition accounts information from network
+    const closeDescriptor = 'NIP13(v' + this.context.revision + '):close:' + tokenId.id + ':'
+    const infos = await accountHttp.getAccountsInfo(closed.map(a => Address.createFromRawAddress(a))).toPromise()
+
+    // Step 3) iterate closed partition accounts
+    const partitions: TokenPartition[] = []
+    for (let i = 0, m = infos.length; i < m; i ++) {
+      const accountInfo: AccountInfo = infos[i]
+
+      // Step 3.1) get partition account owner from multisig graph
+      const owner = await this.getPartitionOwnerFromNetwork(accountInfo.address, operators)
+
+      // Step 3.2) read last closing marker to identify partition label
+      const lastMarker = transactions.filter(
+        tx => (tx.recipientAddress as Address).equals(accountInfo.address)
+          && tx.message.payload.startsWith(closeDescriptor)
+      ).pop() as TransferTransaction
+
+      // Step 3.3) register partition (`NONCE` metadata is cleared)
+      partitions.push(new TokenPartition(
+        lastMarker.message.payload.substr(closeDescriptor.length),
+        owner,
+        accountInfo.publicAccount,
+        0,
+      ))
+    }
+
+    return partitions
+  }
+
+  /**
+   * Read the owner of a partition account from its multisig graph. The
+   * owner is the only cosignatory that is not an operator of the token.
+   *
+   * @param {Address}               address     The partition account address.
+   * @param {PublicAccount[]}       operators   The list of operators of said token.
+   * @return {PublicAccount}
+   */
+  protected async getPartitionOwnerFromNetwork(
+    address: Address,
+    operators: PublicAccount[],
+  ): Promise<PublicAccount> {
+    const multisigHttp = this.context.network.factoryHttp.createMultisigRepository()
+    const multisig = new MultisigService(this.context)
+
+    const graph = await multisigHttp.getMultisigAccountGraphInfo(address).toPromise()
+    return multisig.getMultisigAccountInfoFromGraph(graph).map(
+      (cosig: MultisigAccountInfo) => cosig.cosignatories
+    ).reduce((prev, it) => {
+      const ops = operators.map(o => o.address.plain())
+      return prev.concat(it.filter(c => !ops.includes(c.address.plain())))
+    }, [])[0] // force one
+  }
+
+  /**
+   * Read the `NAME`, `OWNER` and `NONCE` metadata of a partition account
+   * from network. Only metadata set by the partition account is read and
+   * partition accounts without `NAME` or `OWNER` metadata are unused.
+   *
+   * @param {PublicAccount}         account     The partition account.
+   * @return {PartitionMetadata|undefined}
+   */
+  public async getPartitionMetadataFromNetwork(
+    account: PublicAccount,
+  ): Promise<PartitionMetadata | undefined> {
+    // read metadata entries for partition account from network
+    const entries: Metadata[] = await this.context.network.factoryHttp.createMetadataRepository()
+      .getAccountMetadata(account.address)
+      .toPromise()
+
+    // read metadata value by key
+    const getValue = (key: string): string => {
+      const entry = entries.find(
+        m => m.metadataEntry.senderPublicKey === account.publicKey
+          && m.metadataEntry.scopedMetadataKey.equals(KeyGenerator.generateUInt64Key(key))
+      )
+
+      return undefined !== entry ? entry.metadataEntry.value : ''
+    }
+
+    // closed partitions have empty `NAME` and `OWNER` metadata
+    const name = getValue('NAME')
+    const owner = getValue('OWNER')
+    if (!name.length || !owner.length) {
+      return undefined
+    }
+
+    return new PartitionMetadata(name, owner, parseInt(getValue('NONCE') || '0'))
+  }
+
+  /**
+   * Get the addresses of partition accounts that were closed with
+   * the `ClosePartition` command. Transfers are sorted by ascending
+   * height and the last marker of a partition account wins.
+   *
+   * @param {TokenIdentifier}       tokenId       The token identifier.
+   * @param {TransferTransaction[]} transactions  The transfers issued by the target account.
+   * @param {string}                descriptor    The token command descriptor used as a marker.
+   * @return {string[]}
+   */
+  public getClosedPartitions(
+    tokenId: TokenIdentifier,
+    transactions: TransferTransaction[],
+    descriptor: string = '',
+  ): string[] {
+    const closeDescriptor = 'NIP13(v' + this.context.revision + '):close:' + tokenId.id + ':'
+
+    return transactions.reduce((closed: string[], tx) => {
+      const address = (tx.recipientAddress as Address).plain()
+      if (tx.message.payload.startsWith(closeDescriptor)) {
+        return closed.filter(a => a !== address).concat([address])
+      }
+      else if (tx.message.payload.startsWith(descriptor)) {
+        return closed.filter(a => a !== address)
+      }
+
+      return closed
+    }, [])
+  }
 }
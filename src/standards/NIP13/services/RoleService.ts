@@ -0,0 +1,162 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  AggregateTransaction,
+  InnerTransaction,
+  KeyGenerator,
+  MosaicAddressRestriction,
+  MosaicAddressRestrictionTransaction,
+  MosaicId,
+  PublicAccount,
+  Transaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Service,
+  TokenIdentifier,
+} from '../../../../index'
+import { RoleAssignment } from '../models/RoleAssignment'
+import { UserRole } from '../models/UserRole'
+import { TransactionService } from './TransactionService'
+
+/**
+ * @class RoleService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token user roles.
+ */
+export class RoleService extends Service {
+  /**
+   * Read the `User_Role` address restrictions of a token from network.
+   * Restricted addresses are discovered in the transaction history of
+   * the target account (restrictions are always issued by the target).
+   *
+   * @param {TokenIdentifier}       tokenId     The token identifier.
+   * @param {PublicAccount}         target      The deterministic account that represents the token.
+   * @return {Promise<RoleAssignment[]>}
+   */
+  public async getRolesFromNetwork(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<RoleAssignment[]> {
+    // initialize APIs
+    const restrictionHttp = this.context.network.factoryHttp.createRestrictionMosaicRepository()
+    const service = new TransactionService(
+      this.context.network.factoryHttp.createAccountRepository(),
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100, // pageSize
+    )
+
+    // Step 1) read restricted addresses from target history
+    const transactions = await service.getUnprocessedTransactions(target.address).toPromise()
+    const addresses = this.getRestrictedAddresses(tokenId.toMosaicId(), transactions)
+    if (!addresses.length) {
+      return []
+    }
+
+    // Step 2) read current restrictions
+    const restrictions = await restrictionHttp.getMosaicAddressRestrictions(
+      tokenId.toMosaicId(),
+      addresses,
+    ).toPromise()
+
+    // Step 3) map restrictions to roles
+    return this.getRoleAssignments(restrictions)
+  }
+
+  /**
+   * Get the addresses for which a `User_Role` restriction of
+   * mosaic `mosaicId` was issued in `transactions`.
+   *
+   * @param {MosaicId}      mosaicId
+   * @param {Transaction[]} transactions
+   * @return {Address[]}
+   */
+  public getRestrictedAddresses(
+    mosaicId: MosaicId,
+    transactions: Transaction[],
+  ): Address[] {
+    const key = KeyGenerator.generateUInt64Key('User_Role')
+    const addresses: Address[] = []
+
+    transactions.map(
+      tx => tx instanceof AggregateTransaction ? tx.innerTransactions : [tx as InnerTransaction]
+    ).reduce((prev, it) => prev.concat(it), []).filter(
+      tx => tx instanceof MosaicAddressRestrictionTransaction
+        && tx.restrictionKey.equals(key)
+        && (tx.mosaicId as MosaicId).equals(mosaicId)
+    ).forEach(tx => {
+      const address = (tx as MosaicAddressRestrictionTransaction).targetAddress as Address
+      if (!addresses.some(a => a.equals(address))) {
+        addresses.push(address)
+      }
+    })
+
+    return addresses
+  }
+
+  /**
+   * Map `User_Role` address restrictions to roles. Unset or
+   * unknown restriction values are ignored.
+   *
+   * @param {MosaicAddressRestriction[]} restrictions
+   * @return {RoleAssignment[]}
+   */
+  public getRoleAssignments(
+    restrictions: MosaicAddressRestriction[],
+  ): RoleAssignment[] {
+    const assignments: RoleAssignment[] = []
+    restrictions.forEach(restriction => restriction.restrictions.forEach((value, key) => {
+      const role = this.isRoleKey(key) ? this.getRole(value) : undefined
+      if (undefined !== role) {
+        assignments.push(new RoleAssignment(restriction.targetAddress, role))
+      }
+    }))
+
+    return assignments
+  }
+
+  /**
+   * Returns whether `key` is the `User_Role` restriction key. Keys
+   * may be represented in decimal or hexadecimal notation.
+   *
+   * @param {string}  key
+   * @return {boolean}
+   */
+  public isRoleKey(
+    key: string,
+  ): boolean {
+    const roleKey = KeyGenerator.generateUInt64Key('User_Role')
+    return [ roleKey.toString(), roleKey.toHex() ].includes(key)
+  }
+
+  /**
+   * Get the role that corresponds to restriction value `value`.
+   *
+   * @param {string}  value
+   * @return {UserRole|undefined}   Undefined for unset or unknown values
+   */
+  public getRole(
+    value: string,
+  ): UserRole | undefined {
+    const role = parseInt(value)
+    return undefined !== UserRole[role] ? role as UserRole : undefined
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Account,
+  AggregateTransaction,
+  PublicAccount,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  FailureOperationForbidden,
+  Service,
+} from '../../../../index'
+import { SigningResult } from '../models/SigningResult'
+
+/**
+ * @class SignerService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token command contract signatures.
+ */
+export class SignerService extends Service {
+  /**
+   * Get the accounts of `keyring` that are part of the `required` signer set.
+   *
+   * @param   {PublicAccount[]} required
+   * @param   {Account[]}       keyring
+   * @return  {Account[]}
+   */
+  public getAvailableSigners(
+    required: PublicAccount[],
+    keyring: Account[],
+  ): Account[] {
+    return required.map(
+      r => keyring.find(k => k.publicKey === r.publicKey)
+    ).filter(
+      (k): k is Account => undefined !== k
+    )
+  }
+
+  /**
+   * Get the accounts of the `required` signer set that are not part of `keyring`.
+   *
+   * @param   {PublicAccount[]} required
+   * @param   {Account[]}       keyring
+   * @return  {PublicAccount[]}
+   */
+  public getMissingSigners(
+    required: PublicAccount[],
+    keyring: Account[],
+  ): PublicAccount[] {
+    return required.filter(
+      r => !keyring.some(k => k.publicKey === r.publicKey)
+    )
+  }
+
+  /**
+   * Sign `contract` with every key of `keyring` that is part of the
+   * `required` signer set. The aggregate is signed by `initiator` if
+   * it is an available signer, otherwise by the first available signer.
+   * Multisig accounts (e.g. the target account) are never required
+   * signers and therefore never sign the aggregate.
+   *
+   * @param   {AggregateTransaction}    contract
+   * @param   {PublicAccount[]}         required
+   * @param   {Account[]}               keyring
+   * @param   {PublicAccount|undefined} initiator (Optional)
+   * @return  {SigningResult}
+   * @throws  {FailureOperationForbidden} On missing signing key for the aggregate.
+   */
+  public sign(
+    contract: AggregateTransaction,
+    required: PublicAccount[],
+    keyring: Account[],
+    initiator?: PublicAccount,
+  ): SigningResult {
+    // the initiator signs the aggregate, when available
+    const available = this.getAvailableSigners(required, keyring)
+    const signer = available.find(k => undefined !== initiator && k.publicKey === initiator.publicKey)
+      || available.shift()
+
+    if (undefined === signer) {
+      throw new FailureOperationForbidden('No key available to sign the contract.')
+    }
+
+    // other available signers cosign
+    const cosigners = available.filter(a => a.publicKey !== signer.publicKey)
+    const signedTransaction = signer.signTransactionWithCosignatories(
+      contract,
+      cosigners,
+      this.context.network.generationHash,
+    )
+
+    return new SigningResult(
+      signedTransaction,
+      [signer.publicAccount].concat(cosigners.map(c => c.publicAccount)),
+      this.getMissingSigners(required, [signer].concat(cosigners)),
+    )
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  AggregateTransaction,
+  InnerTransaction,
+  MosaicId,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  NamespaceId,
+  PublicAccount,
+  SecretLockTransaction,
+  SecretProofTransaction,
+  Transaction,
+  TransactionInfo,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Service,
+  TokenIdentifier,
+  TokenPartition,
+} from '../../../../index'
+import { CapTableSnapshot } from '../models/CapTableSnapshot'
+import { PartitionService } from './PartitionService'
+import { TransactionService } from './TransactionService'
+
+/**
+ * @class SnapshotService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around token cap table snapshots.
+ */
+export class SnapshotService extends Service {
+  /**
+   * Read the transaction history of the target account and of token
+   * holder partitions from network and replay it up to `height`.
+   *
+   * @param {TokenIdentifier}       tokenId     The token identifier.
+   * @param {PublicAccount}         target      The deterministic account that represents the token.
+   * @param {TokenPartition[]}      partitions  The token holder partitions (including closed partitions).
+   * @param {UInt64}                height      The snapshot block height.
+   * @return {Promise<CapTableSnapshot>}
+   */
+  public async getSnapshotFromNetwork(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    partitions: TokenPartition[],
+    height: UInt64,
+  ): Promise<CapTableSnapshot> {
+    // initialize APIs
+    const service = new TransactionService(
+      this.context.network.factoryHttp.createAccountRepository(),
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100, // pageSize
+    )
+
+    // Step 1) read transactions of target and partition accounts
+    const accounts = [target].concat(partitions.map(p => p.account))
+    const transactions: Transaction[] = []
+    for (let i = 0, m = accounts.length; i < m; i ++) {
+      const history = await service.getUnprocessedTransactions(accounts[i].address).toPromise()
+
+      // Step 2) transactions between two accounts are read twice
+      history.filter(tx => !transactions.some(
+        t => TransactionService.getTransactionHash(t) === TransactionService.getTransactionHash(tx)
+      )).forEach(tx => transactions.push(tx))
+    }
+
+    // Step 3) replay transactions
+    return this.getSnapshot(tokenId, target, partitions, transactions, height)
+  }
+
+  /**
+   * Replay confirmed `transactions` up to `height` (inclusive) to
+   * reconstruct the balances of the target account and of token
+   * holder partitions. Transactions MUST NOT contain duplicates.
+   *
+   * Secret locks are debited from the lock signer and credited to
+   * the lock recipient with a proof. Locks that are not proven are
+   * credited back to the lock signer when they expire, as does the
+   * network with a balance change receipt.
+   *
+   * Partitions that were closed at or before `height` are excluded.
+   *
+   * @param {TokenIdentifier}       tokenId       The token identifier.
+   * @param {PublicAccount}         target        The deterministic account that represents the token.
+   * @param {TokenPartition[]}      partitions    The token holder partitions (including closed partitions).
+   * @param {Transaction[]}         transactions  The confirmed transactions.
+   * @param {UInt64}                height        The snapshot block height.
+   * @return {CapTableSnapshot}
+   */
+  public getSnapshot(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+    partitions: TokenPartition[],
+    transactions: Transaction[],
+    height: UInt64,
+  ): CapTableSnapshot {
+    // only confirmed transactions up to `height` are replayed
+    const getInner = (tx: Transaction) => tx instanceof AggregateTransaction
+      ? tx.innerTransactions
+      : [tx as InnerTransaction]
+    const blocks = transactions.filter(
+      tx => undefined !== tx.transactionInfo && tx.transactionInfo.height.compare(height) <= 0
+    )
+    const confirmed: InnerTransaction[] = blocks.map(getInner).reduce((prev, it) => prev.concat(it), [])
+
+    // read secret locks of the token and the secrets that were proven
+    const mosaicId = tokenId.toMosaicId()
+    const locks = confirmed.filter(
+      tx => tx instanceof SecretLockTransaction && SnapshotService.isMosaic(tx.mosaic.id, mosaicId)
+    ) as SecretLockTransaction[]
+    const proven = confirmed.filter(
+      tx => tx instanceof SecretProofTransaction
+    ).map(tx => (tx as SecretProofTransaction).secret.toUpperCase())
+
+    // locks that are not proven expire at lock height + duration
+    const expired: SecretLockTransaction[] = []
+    blocks.forEach(tx => getInner(tx).forEach(inner => {
+      const lock = locks.find(l => l === inner)
+      if (undefined === lock || proven.includes(lock.secret.toUpperCase())) {
+        return
+      }
+
+      const endHeight = (tx.transactionInfo as TransactionInfo).height.add(lock.duration)
+      if (endHeight.compare(height) <= 0) {
+        expired.push(lock)
+      }
+    }))
+
+    const getBalance = (address: Address) => confirmed.reduce(
+      (balance, tx) => balance + this.getBalanceChange(address, mosaicId, tx, locks), 0
+    ) + expired.filter(
+      lock => undefined !== lock.signer && lock.signer.address.equals(address)
+    ).reduce((balance, lock) => balance + lock.mosaic.amount.compact(), 0)
+
+    // partitions closed up to `height` are excluded (unless created again)
+    const descriptor = 'NIP13(v' + this.context.revision + '):partition:' + tokenId.id + ':'
+    const closed = new PartitionService(this.context).getClosedPartitions(tokenId, confirmed.filter(
+      tx => tx instanceof TransferTransaction && undefined !== tx.signer && tx.signer.address.equals(target.address)
+    ) as TransferTransaction[], descriptor)
+
+    return new CapTableSnapshot(
+      tokenId,
+      height,
+      getBalance(target.address),
+      partitions.filter(p => !closed.includes(p.account.address.plain())).map(
+        p => new TokenPartition(p.name, p.owner, p.account, getBalance(p.account.address), p.nonce)
+      ),
+    )
+  }
+
+  /**
+   * Get the change of balance of `address` for mosaic `mosaicId`
+   * that results of the execution of `transaction`.
+   *
+   * @param {Address}                 address
+   * @param {MosaicId}                mosaicId
+   * @param {Transaction}             transaction
+   * @param {SecretLockTransaction[]} locks         The secret locks that can be proven.
+   * @return {number}
+   */
+  protected getBalanceChange(
+    address: Address,
+    mosaicId: MosaicId,
+    transaction: Transaction,
+    locks: SecretLockTransaction[] = [],
+  ): number {
+    const isSigner = undefined !== transaction.signer && transaction.signer.address.equals(address)
+
+    // supply changes affect the balance of the mosaic owner
+    if (transaction instanceof MosaicSupplyChangeTransaction) {
+      if (!isSigner || !SnapshotService.isMosaic(transaction.mosaicId, mosaicId)) {
+        return 0
+      }
+
+      const delta = transaction.delta.compact()
+      return MosaicSupplyChangeAction.Increase === transaction.action ? delta : -delta
+    }
+    else if (transaction instanceof TransferTransaction) {
+      const amount = transaction.mosaics.filter(
+        m => SnapshotService.isMosaic(m.id, mosaicId)
+      ).reduce((sum, m) => sum + m.amount.compact(), 0)
+
+      // :note: aliases are not resolved; derived addresses may come from another sdk copy
+      const isRecipient = !(transaction.recipientAddress instanceof NamespaceId)
+        && address.equals(transaction.recipientAddress as Address)
+
+      return (isRecipient ? amount : 0) - (isSigner ? amount : 0)
+    }
+    // locked mosaics are debited from the lock signer
+    else if (transaction instanceof SecretLockTransaction) {
+      const isToken = SnapshotService.isMosaic(transaction.mosaic.id, mosaicId)
+      return isSigner && isToken ? -transaction.mosaic.amount.compact() : 0
+    }
+    // proven locks are credited to the lock recipient
+    else if (transaction instanceof SecretProofTransaction) {
+      const lock = locks.find(l => l.secret.toUpperCase() === transaction.secret.toUpperCase())
+      const isRecipient = undefined !== lock
+        && !(lock.recipientAddress instanceof NamespaceId)
+        && address.equals(lock.recipientAddress as Address)
+
+      return undefined !== lock && isRecipient ? lock.mosaic.amount.compact() : 0
+    }
+
+    return 0
+  }
+
+  /**
+   * Returns whether mosaic `id` is the mosaic `mosaicId`. Aliases are not resolved.
+   *
+   * @param {MosaicId|NamespaceId}  id
+   * @param {MosaicId}              mosaicId
+   * @return {boolean}
+   */
+  protected static isMosaic(
+    id: MosaicId | NamespaceId,
+    mosaicId: MosaicId,
+  ): boolean {
+    return !(id instanceof NamespaceId) && (id as MosaicId).equals(mosaicId)
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  Address,
+  AggregateTransaction,
+  InnerTransaction,
+  MosaicId,
+  NamespaceId,
+  PublicAccount,
+  SecretLockTransaction,
+  SecretProofTransaction,
+  Transaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Service,
+  TokenIdentifier,
+} from '../../../../index'
+import { SwapLock } from '../models/SwapLock'
+import { TransactionService } from './TransactionService'
+
+/**
+ * @class SwapService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around hash-time-locked swaps of token shares.
+ */
+export class SwapService extends Service {
+  /**
+   * Read the swap locks issued by the target account from network.
+   *
+   * @param {TokenIdentifier}       tokenId     The token identifier.
+   * @param {PublicAccount}         target      The deterministic account that represents the token.
+   * @return {Promise<SwapLock[]>}
+   */
+  public async getLocksFromNetwork(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<SwapLock[]> {
+    // initialize APIs
+    const service = new TransactionService(
+      this.context.network.factoryHttp.createAccountRepository(),
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100, // pageSize
+    )
+
+    // read transactions of target account
+    const transactions = await service.getUnprocessedTransactions(target.address).toPromise()
+    return this.getLocks(tokenId, transactions)
+  }
+
+  /**
+   * Read swap locks of token `tokenId` from confirmed aggregate
+   * `transactions`. Locks are identified by their `LockSwap`
+   * marker, claims by a matching `SecretProofTransaction` and
+   * refunds by their `RefundSwap` marker.
+   *
+   * @param {TokenIdentifier}       tokenId       The token identifier.
+   * @param {Transaction[]}         transactions  The confirmed transactions.
+   * @return {SwapLock[]}
+   */
+  public getLocks(
+    tokenId: TokenIdentifier,
+    transactions: Transaction[],
+  ): SwapLock[] {
+    const lockDescriptor = 'NIP13(v' + this.context.revision + '):swap-lock:' + tokenId.id + ':'
+    const refundDescriptor = 'NIP13(v' + this.context.revision + '):swap-refund:' + tokenId.id + ':'
+    const mosaicId = tokenId.toMosaicId()
+
+    // only confirmed aggregates contain swap locks
+    const aggregates = transactions.filter(
+      tx => tx instanceof AggregateTransaction && undefined !== tx.transactionInfo
+    ) as AggregateTransaction[]
+
+    const inner: InnerTransaction[] = aggregates.map(
+      tx => tx.innerTransactions
+    ).reduce((prev, it) => prev.concat(it), [])
+
+    // read claimed and refunded secrets
+    const claimed = inner.filter(
+      tx => tx instanceof SecretProofTransaction
+    ).map(tx => (tx as SecretProofTransaction).secret.toUpperCase())
+
+    const refunded = inner.filter(
+      tx => tx instanceof TransferTransaction && tx.message.payload.startsWith(refundDescriptor)
+    ).map(tx => (tx as TransferTransaction).message.payload.substr(refundDescriptor.length))
+
+    const locks: SwapLock[] = []
+    aggregates.forEach((aggregate) => {
+      const marker = aggregate.innerTransactions.find(
+        tx => tx instanceof TransferTransaction && tx.message.payload.startsWith(lockDescriptor)
+      ) as TransferTransaction | undefined
+
+      const lock = aggregate.innerTransactions.find(
+        tx => tx instanceof SecretLockTransaction
+          && !(tx.mosaic.id instanceof NamespaceId)
+          && (tx.mosaic.id as MosaicId).equals(mosaicId)
+      ) as SecretLockTransaction | undefined
+
+      // unconfirmed aggregates have no height
+      const info = aggregate.transactionInfo
+      if (undefined === marker || undefined === lock || undefined === info) {
+        return
+      }
+
+      const secret = lock.secret.toUpperCase()
+      locks.push(new SwapLock(
+        secret,
+        marker.recipientAddress as Address,
+        lock.recipientAddress as Address,
+        lock.mosaic.amount.compact(),
+        info.height,
+        lock.duration,
+        claimed.includes(secret),
+        refunded.includes(secret),
+      ))
+    })
+
+    return locks
+  }
+}
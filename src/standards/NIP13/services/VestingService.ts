@@ -0,0 +1,166 @@
+/**
+ * Copyright 2020 NEM
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AccountInfo,
+  AccountMetadataTransaction,
+  AggregateTransaction,
+  KeyGenerator,
+  PublicAccount,
+  Transaction,
+  TransferTransaction,
+} from 'symbol-sdk'
+
+// internal dependencies
+import {
+  Service,
+  TokenIdentifier,
+} from '../../../../index'
+import { VestingSchedule } from '../models/VestingSchedule'
+import { TransactionService } from './TransactionService'
+
+/**
+ * @class VestingService
+ * @package services
+ * @since v0.5.3
+ * @description Class that describes a service around vesting schedules of locked balances.
+ */
+export class VestingService extends Service {
+  /**
+   * Read the vesting schedule attached to the account metadata
+   * of `locker` from network. Vesting schedules MUST be issued
+   * by the locker account itself.
+   *
+   * @param   {PublicAccount}   locker    The token locker account.
+   * @return  {Promise<VestingSchedule|undefined>}
+   */
+  public async getScheduleFromNetwork(
+    locker: PublicAccount,
+  ): Promise<VestingSchedule | undefined> {
+    // initialize REST
+    const metadataHttp = this.context.network.factoryHttp.createMetadataRepository()
+    const key = KeyGenerator.generateUInt64Key('Vesting_Schedule').toHex()
+
+    try {
+      const metadata = await metadataHttp.getAccountMetadataByKeyAndSender(
+        locker.address,
+        key,
+        locker.publicKey,
+      ).toPromise()
+
+      return VestingSchedule.fromMetadata(metadata.metadataEntry.value)
+    }
+    catch (e) {
+      // metadata entry not found
+      return undefined
+    }
+  }
+
+  /**
+   * Read the number of shares of token `tokenId` that are
+   * owned by the locker account from network.
+   *
+   * @param   {TokenIdentifier} tokenId   The token identifier.
+   * @param   {PublicAccount}   locker    The token locker account.
+   * @return  {Promise<number>}
+   */
+  public async getLockedAmountFromNetwork(
+    tokenId: TokenIdentifier,
+    locker: PublicAccount,
+  ): Promise<number> {
+    // initialize REST
+    const accountHttp = this.context.network.factoryHttp.createAccountRepository()
+    const accountInfo = await accountHttp.getAccountInfo(locker.address).toPromise()
+
+    return this.getLockedAmount(tokenId, accountInfo)
+  }
+
+  /**
+   * Get the number of shares of token `tokenId` that are
+   * owned by the locker account `accountInfo`.
+   *
+   * @param   {TokenIdentifier} tokenId       The token identifier.
+   * @param   {AccountInfo}     accountInfo   The token locker account information.
+   * @return  {number}
+   */
+  public getLockedAmount(
+    tokenId: TokenIdentifier,
+    accountInfo: AccountInfo,
+  ): number {
+    const mosaicId = tokenId.toMosaicId()
+    const mosaic = accountInfo.mosaics.find(m => m.id.toHex() === mosaicId.toHex())
+    return undefined !== mosaic ? mosaic.amount.compact() : 0
+  }
+
+  /**
+   * Read the token locker accounts of token `tokenId` from network. Lockers
+   * are discovered in the transaction history of the target account.
+   *
+   * @param   {TokenIdentifier} tokenId   The token identifier.
+   * @param   {PublicAccount}   target    The deterministic account that represents the token.
+   * @return  {Promise<PublicAccount[]>}
+   */
+  public async getLockersFromNetwork(
+    tokenId: TokenIdentifier,
+    target: PublicAccount,
+  ): Promise<PublicAccount[]> {
+    // initialize APIs
+    const service = new TransactionService(
+      this.context.network.factoryHttp.createAccountRepository(),
+      this.context.network.factoryHttp.createChainRepository(),
+      this.context.network.factoryHttp.createTransactionRepository(),
+      this.context.network.factoryHttp.createReceiptRepository(),
+      100, // pageSize
+    )
+
+    // read transactions of target account
+    const transactions = await service.getUnprocessedTransactions(target.address).toPromise()
+    return this.getLockers(tokenId, transactions)
+  }
+
+  /**
+   * Get the token locker accounts that attached a `Vesting_Schedule`
+   * in `CreateVestingSchedule` contracts of token `tokenId`.
+   *
+   * @param   {TokenIdentifier} tokenId       The token identifier.
+   * @param   {Transaction[]}   transactions  The transactions of the target account.
+   * @return  {PublicAccount[]}
+   */
+  public getLockers(
+    tokenId: TokenIdentifier,
+    transactions: Transaction[],
+  ): PublicAccount[] {
+    const descriptor = 'NIP13(v' + this.context.revision + '):vest:' + tokenId.id
+    const key = KeyGenerator.generateUInt64Key('Vesting_Schedule')
+    const lockers: PublicAccount[] = []
+
+    transactions.filter(
+      tx => tx instanceof AggregateTransaction && tx.innerTransactions.some(
+        inner => inner instanceof TransferTransaction && inner.message.payload === descriptor
+      )
+    ).map(
+      tx => (tx as AggregateTransaction).innerTransactions
+    ).reduce((prev, it) => prev.concat(it), []).filter(
+      tx => tx instanceof AccountMetadataTransaction && tx.scopedMetadataKey.equals(key)
+    ).forEach(tx => {
+      const locker = tx.signer as PublicAccount
+      if (!lockers.some(l => l.address.equals(locker.address))) {
+        lockers.push(locker)
+      }
+    })
+
+    return lockers
+  }
+}
@@ -76,4 +76,21 @@ describe('contracts/Context --->', () => {
       expect(identifier).to.be.equal('id')
     })
   })
+
+  describe('setInput() should', () => {
+    it('overwrite value given existing argument', () => {
+      // prepare
+      const argv = [new CommandOption('identifier', 'id')]
+      const fresh = new Context(1, context.actor, context.network, context.parameters, argv)
+
+      // act
+      fresh.setInput('identifier', 'id2')
+      const identifier = fresh.getInput('identifier', 'default')
+
+      // assert
+      expect(identifier).to.be.equal('id2')
+      expect(argv).to.have.lengthOf(1)
+      expect(argv[0].value).to.be.equal('id')
+    })
+  })
 })
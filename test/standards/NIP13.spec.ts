@@ -16,12 +16,49 @@
 
 import { expect } from 'chai'
 import { describe, it } from 'mocha'
-import { MosaicId, NetworkType } from 'symbol-sdk'
+import {
+  AccountMetadataTransaction,
+  Address,
+  AggregateTransaction,
+  Deadline,
+  EmptyMessage,
+  InnerTransaction,
+  KeyGenerator,
+  Mosaic,
+  MosaicAddressRestrictionTransaction,
+  MosaicId,
+  MosaicInfo,
+  MosaicSupplyChangeAction,
+  MosaicSupplyChangeTransaction,
+  MultisigAccountModificationTransaction,
+  NetworkType,
+  PlainMessage,
+  PublicAccount,
+  SecretLockTransaction,
+  SecretProofTransaction,
+  TransactionInfo,
+  TransactionMapping,
+  TransactionType,
+  TransferTransaction,
+  UInt64,
+} from 'symbol-sdk'
 
 // internal dependencies
-import { getTestMnemonic } from '../mocks/index'
-import { NIP13 } from '../../index'
+import { getTestAccount, getTestContext, getTestMnemonic } from '../mocks/index'
+import {
+  CommandOption,
+  ExecutionMode,
+  FailureCommandValidation,
+  NIP13,
+  Notification,
+  TokenIdentifier,
+  TokenPartition,
+  TransactionParameters,
+} from '../../index'
 import { NetworkConfig } from '../../src/models/NetworkConfig'
+import { SnapshotService } from '../../src/standards/NIP13/services/SnapshotService'
+import { RoleService } from '../../src/standards/NIP13/services/RoleService'
+import { PartitionService } from '../../src/standards/NIP13/services/PartitionService'
 
 // prepare
 const mnemonic = getTestMnemonic()
@@ -55,5 +92,1924 @@ describe('NIP13 Standard --->', () => {
       // assert
       expect(token.target.address.plain()).to.be.equal(defaultNIP13)
     })
+
+    it('derive token accounts relative to the token index', () => {
+      // act
+      const second = new NIP13.Token(token.network, mnemonic, undefined, 1)
+      const holder = token.getOperator(3).publicAccount
+
+      // assert
+      expect(token.getPathForToken()).to.be.equal('m/44\'/4343\'/1313\'/0\'/0\'')
+      expect(second.getPathForToken()).to.be.equal('m/44\'/4343\'/1314\'/0\'/0\'')
+      expect(second.target.address.plain()).to.not.be.equal(defaultNIP13)
+      expect(second.getOperator(1).publicKey).to.not.be.equal(token.getOperator(1).publicKey)
+      expect(second.getPathForPartition(holder)).to.match(/^m\/44'\/4343'\/1314'\/0'\//)
+      expect(second.getTargets(2).map(t => t.address.plain())).to.deep.equal([
+        defaultNIP13,
+        second.target.address.plain(),
+      ])
+      expect(() => new NIP13.Token(token.network, mnemonic, undefined, -1)).to.throw()
+    })
+
+    it('list tokens of a mnemonic using the state provider', async () => {
+      // prepare
+      const third = new NIP13.Token(token.network, mnemonic, undefined, 2)
+      const getTokens = (identifier: TokenIdentifier) => NIP13.Token.getTokensFromMnemonic(token.network, mnemonic, 3,
+        NIP13.InMemoryTokenState.fromJSON(identifier, { mosaic: { supply: 1000 } }))
+
+      // act
+      const first = await getTokens(token.identifier)
+      const last = await getTokens(third.identifier)
+      const unknown = await NIP13.Token.getTokensFromMnemonic(token.network, mnemonic, 3,
+        NIP13.InMemoryTokenState.fromJSON(token.identifier, {}))
+
+      // assert
+      expect(first.map(t => t.tokenIndex)).to.deep.equal([0])
+      expect(first[0].target.address.plain()).to.be.equal(defaultNIP13)
+      expect(last.map(t => t.tokenIndex)).to.deep.equal([2])
+      expect(last[0].target.address.plain()).to.be.equal(third.target.address.plain())
+      expect(unknown.length).to.be.equal(0)
+    })
+
+    it('not report state provider failures as unknown tokens', async () => {
+      // prepare
+      const provider = NIP13.InMemoryTokenState.fromJSON(token.identifier, {})
+      provider.getMosaicInfo = async () => {
+        throw new Error('Cannot reach node')
+      }
+
+      // act
+      const error = await NIP13.Token.getTokensFromMnemonic(token.network, mnemonic, 3, provider).catch(f => f)
+
+      // assert
+      expect(error).to.be.instanceOf(Error)
+      expect(error.message).to.be.equal('Cannot reach node')
+    })
+  })
+
+  describe('synchronize() should', () => {
+    it('read token state using the state provider', async () => {
+      // prepare
+      const operator = getTestAccount('operator1')
+      const holder = getTestAccount('random1')
+      const provider = NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        mosaic: { supply: 1000 },
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+        metadata: { isin: 'JP3788600009' },
+      })
+      const offline = new NIP13.Token(token.network, mnemonic, provider)
+
+      // act
+      const result = await offline.synchronize()
+
+      // assert
+      expect(result).to.be.true
+      expect(offline.operators).to.have.lengthOf(1)
+      expect(offline.operators[0].publicKey).to.be.equal(operator.publicKey)
+      expect(offline.mosaicInfo).to.not.be.undefined
+      expect((offline.mosaicInfo as MosaicInfo).id.equals(offline.identifier.toMosaicId())).to.be.true
+      expect((offline.mosaicInfo as MosaicInfo).supply.compact()).to.be.equal(1000)
+      expect(offline.partitions).to.have.lengthOf(1)
+      expect(offline.partitions[0].amount).to.be.equal(10)
+      expect(offline.metadata).to.deep.include({ isin: 'JP3788600009' })
+      expect(offline.restrictions).to.be.undefined
+    })
+
+    it('read optional state only for the commands that need it', async () => {
+      // prepare
+      const operator = getTestAccount('operator1')
+      const holder = getTestAccount('random1')
+      const provider = NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      })
+      provider.getSwapLocks = async () => {
+        throw new Error('Swap locks are unavailable.')
+      }
+      const offline = new NIP13.Token(token.network, mnemonic, provider)
+
+      // act
+      await offline.synchronize([])
+      const plan = await offline.explain(operator, offline.identifier, 'TransferOwnership', new TransactionParameters(), [
+        new CommandOption('sender', offline.target),
+        new CommandOption('recipient', offline.partitions[0].account),
+        new CommandOption('amount', 5),
+      ])
+      const error = await offline.explain(operator, offline.identifier, 'RefundSwap', new TransactionParameters(), [
+        new CommandOption('secret', NIP13.SwapSecret.generate().secret),
+      ]).catch(f => f)
+
+      // assert
+      expect(plan.command).to.be.equal('TransferOwnership')
+      expect(error).to.be.instanceOf(Error)
+      expect(error.message).to.be.equal('Swap locks are unavailable.')
+    })
+  })
+
+  describe('canExecute() should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const holder = getTestAccount('random1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+    }))
+
+    it('report unknown partitions with code', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'TransferOwnership', [
+        new CommandOption('sender', offline.target),
+        new CommandOption('recipient', getTestAccount('random2')),
+        new CommandOption('amount', 1),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('UNKNOWN_PARTITION')
+      expect(result.message).to.contain('does not exist')
+    })
+
+    it('report insufficient balances with code', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'ForcedTransfer', [
+        new CommandOption('sender', offline.partitions[0].account),
+        new CommandOption('recipient', offline.target),
+        new CommandOption('amount', 11),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INSUFFICIENT_BALANCE')
+    })
+
+    it('throw typed validation errors on execution', async () => {
+      // act
+      await offline.synchronize()
+      const execute = () => offline.executeWithoutSync(
+        operator,
+        offline.identifier,
+        'ForcedTransfer',
+        new TransactionParameters(),
+        [
+          new CommandOption('sender', offline.partitions[0].account),
+          new CommandOption('recipient', offline.target),
+          new CommandOption('amount', 11),
+        ],
+      )
+
+      // assert
+      expect(execute).to.throw(FailureCommandValidation)
+    })
+  })
+
+  describe('explain() should', () => {
+    it('list inner transactions with signer roles', async () => {
+      // prepare
+      const operator = getTestAccount('operator1')
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        new TransactionParameters(),
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+      )
+
+      // assert
+      expect(plan.command).to.be.equal('TransferOwnership')
+      expect(plan.steps).to.have.lengthOf(1)
+      expect(plan.steps[0].type).to.be.equal('TRANSFER')
+      expect(plan.steps[0].role).to.be.equal('target')
+      expect(plan.steps[0].mosaics[0].amount.compact()).to.be.equal(5)
+      expect(plan.summary).to.contain('TRANSFER signed by target')
+    })
+  })
+
+  describe('estimateFee() should', () => {
+    it('include expected cosignatures and hash lock fee', async () => {
+      // prepare
+      const operator = getTestAccount('operator1')
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [ operator.publicKey, getTestAccount('operator3').publicKey ],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+      const params = new TransactionParameters()
+
+      // act
+      await offline.synchronize()
+      const estimate = await offline.estimateFee(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        params,
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+        10, // feeMultiplier
+        true, // writeBack
+      )
+
+      // assert
+      expect(estimate.cosignatures).to.be.equal(1)
+      expect(estimate.maxFee.compact()).to.be.equal(estimate.size * 10)
+      expect(estimate.lockFee.compact()).to.be.greaterThan(0)
+      expect(estimate.total.compact()).to.be.equal(estimate.maxFee.compact() + estimate.lockFee.compact())
+      expect(params.maxFee).to.deep.equal(estimate.maxFee)
+    })
+  })
+
+  describe('sign() should', () => {
+    it('cosign with derived keys and report missing cosigners', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const external = getTestAccount('operator3')
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [ operator.publicKey, external.publicKey ],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+
+      // act
+      await offline.synchronize()
+      const result = await offline.sign(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        new TransactionParameters(),
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+      )
+
+      // assert
+      expect(result.signedTransaction.signerPublicKey).to.be.equal(operator.publicKey)
+      expect(result.signers).to.have.lengthOf(1)
+      expect(result.isComplete).to.be.false
+      expect(result.missing).to.have.lengthOf(1)
+      expect(result.missing[0].publicKey).to.be.equal(external.publicKey)
+    })
+  })
+
+  describe('announce() should', () => {
+    it('announce hash lock before aggregate bonded', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+      const announcer = new NIP13.InMemoryTokenAnnouncer()
+      const steps: string[] = []
+
+      // act
+      await offline.synchronize()
+      const events = await offline.announce(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        new TransactionParameters(),
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+        announcer,
+        (e) => steps.push(e.step),
+      )
+
+      // assert
+      expect(steps).to.deep.equal([ 'lock-signed', 'lock-confirmed', 'aggregate-announced' ])
+      expect(events).to.have.lengthOf(3)
+      expect(announcer.announced).to.have.lengthOf(2)
+      expect(announcer.announced[0].type).to.be.equal(TransactionType.HASH_LOCK)
+      expect(announcer.announced[1].type).to.be.equal(TransactionType.AGGREGATE_BONDED)
+      expect(announcer.announced[1].hash).to.be.equal(events[2].hash)
+    })
+
+    it('use the transaction parameters for the hash lock', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+      const announcer = new NIP13.InMemoryTokenAnnouncer()
+      const parameters = new TransactionParameters(Deadline.create(1), 12345)
+
+      // act
+      await offline.synchronize()
+      await offline.announce(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        parameters,
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+        announcer,
+      )
+      const [ lock, contract ] = announcer.announced.map(t => TransactionMapping.createFromPayload(t.payload))
+
+      // assert
+      expect(lock.maxFee.compact()).to.be.equal(12345)
+      expect(lock.deadline.value.equals(contract.deadline.value)).to.be.true
+    })
+  })
+
+  describe('executeWithoutSync() should', () => {
+    // prepare
+    const operator = token.getOperator(1).publicAccount
+    const holder = getTestAccount('random1')
+    const getContractType = async (operators: string[], mode: ExecutionMode) => {
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators,
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+
+      await offline.synchronize()
+      const uri = offline.executeWithoutSync(
+        operator,
+        offline.identifier,
+        'TransferOwnership',
+        new TransactionParameters(Deadline.create(), undefined, mode),
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipient', offline.partitions[0].account),
+          new CommandOption('amount', 5),
+        ],
+      )
+
+      return TransactionMapping.createFromPayload(uri.data).type
+    }
+
+    it('create aggregate bonded by default', async () => {
+      const type = await getContractType([operator.publicKey], ExecutionMode.Bonded)
+      expect(type).to.be.equal(TransactionType.AGGREGATE_BONDED)
+    })
+
+    it('create aggregate complete in auto mode with derivable signers', async () => {
+      const type = await getContractType([operator.publicKey], ExecutionMode.Auto)
+      expect(type).to.be.equal(TransactionType.AGGREGATE_COMPLETE)
+    })
+
+    it('create aggregate bonded in auto mode with external signers', async () => {
+      const type = await getContractType([ operator.publicKey, getTestAccount('operator3').publicKey ], ExecutionMode.Auto)
+      expect(type).to.be.equal(TransactionType.AGGREGATE_BONDED)
+    })
+  })
+
+  describe('executeChunks() should', () => {
+    it('split batch transfers over aggregate limits', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const holders = [ 'random1', 'random2', 'operator3' ].map(n => getTestAccount(n))
+      const network = new NetworkConfig(
+        token.network.gatewayUrl,
+        token.network.networkType,
+        token.network.generationHash,
+        token.network.feeMosaicId,
+        undefined, // lockAmount
+        undefined, // lockDuration
+        3, // maxTransactionsPerAggregate
+      )
+      const offline = new NIP13.Token(network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: holders.map(h => ({ name: 'Default', owner: h.publicKey, account: h.publicKey, amount: 10 })),
+        balances: { [token.target.publicKey]: { [token.identifier.toMosaicId().toHex()]: 3 } },
+      }))
+
+      // act
+      await offline.synchronize()
+      const chunks = await offline.executeChunks(
+        operator,
+        offline.identifier,
+        'BatchTransferOwnership',
+        new TransactionParameters(),
+        [
+          new CommandOption('sender', offline.target),
+          new CommandOption('recipients', offline.partitions.map(p => p.account)),
+          new CommandOption('amount', 1),
+        ],
+      )
+      const contracts = chunks.map(c => TransactionMapping.createFromPayload(c.uri.data) as AggregateTransaction)
+      const recipients = contracts.map(c => (c.innerTransactions[1] as TransferTransaction).recipientAddress)
+
+      // assert
+      expect(chunks).to.have.lengthOf(2)
+      expect(chunks.map(c => c.index)).to.deep.equal([ 0, 1 ])
+      expect(contracts[0].innerTransactions).to.have.lengthOf(3)
+      expect(contracts[1].innerTransactions).to.have.lengthOf(2)
+      expect((contracts[1].innerTransactions[0] as TransferTransaction).message.payload).to.contain(':2/2')
+      expect(recipients[0]).to.deep.equal(offline.partitions[0].account.address)
+      expect(recipients[1]).to.deep.equal(offline.partitions[2].account.address)
+    })
+
+    it('refuse batches that exceed the sender balance', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const holders = [ 'random1', 'random2', 'operator3' ].map(n => getTestAccount(n))
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: holders.map(h => ({ name: 'Default', owner: h.publicKey, account: h.publicKey, amount: 10 })),
+        balances: { [token.target.publicKey]: { [token.identifier.toMosaicId().toHex()]: 3 } },
+      }))
+
+      // act
+      await offline.synchronize()
+      const getResult = (sender: PublicAccount, amount: number) => offline.canExecute(
+        operator,
+        offline.identifier,
+        'BatchTransferOwnership',
+        [
+          new CommandOption('sender', sender),
+          new CommandOption('recipients', offline.partitions.slice(1).map(p => p.account)),
+          new CommandOption('amount', amount),
+        ],
+      )
+
+      // assert
+      expect(getResult(offline.target, 2).code).to.be.equal('INSUFFICIENT_BALANCE')
+      expect(getResult(offline.partitions[0].account, 6).code).to.be.equal('INSUFFICIENT_BALANCE')
+      expect(getResult(offline.partitions[0].account, 5).status).to.be.true
+    })
+  })
+
+  describe('DistributeDividend should', () => {
+    // prepare
+    const operator = token.getOperator(1).publicAccount
+    const owners = [ 'random1', 'random2', 'operator3' ].map(n => getTestAccount(n))
+    const getToken = (maxTransactionsPerAggregate?: number) => new NIP13.Token(new NetworkConfig(
+      token.network.gatewayUrl,
+      token.network.networkType,
+      token.network.generationHash,
+      token.network.feeMosaicId,
+      undefined, // lockAmount
+      undefined, // lockDuration
+      maxTransactionsPerAggregate,
+    ), mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      partitions: owners.map(o => ({ name: 'Default', owner: o.publicKey, account: o.publicKey, amount: 10 })),
+      balances: { [token.target.publicKey]: { [token.network.feeMosaicId.toHex()]: 1000 } },
+    }))
+
+    it('pay pro-rata shares with deterministic remainders', async () => {
+      // act
+      const offline = getToken()
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'DistributeDividend',
+        new TransactionParameters(),
+        [new CommandOption('amount', 1000)],
+      )
+      const payments = plan.steps.slice(1).map(s => s.mosaics[0])
+
+      // assert
+      expect(plan.steps).to.have.lengthOf(4)
+      expect(payments.map(m => m.amount.compact())).to.deep.equal([ 334, 333, 333 ])
+      expect(payments.every(m => m.id.equals(token.network.feeMosaicId))).to.be.true
+    })
+
+    it('split payments over aggregate limits', async () => {
+      // act
+      const offline = getToken(3)
+      await offline.synchronize()
+      const chunks = await offline.executeChunks(
+        operator,
+        offline.identifier,
+        'DistributeDividend',
+        new TransactionParameters(),
+        [new CommandOption('amount', 1000)],
+      )
+
+      // assert
+      expect(chunks).to.have.lengthOf(2)
+    })
+
+    it('refuse payouts that exceed the target balance', async () => {
+      // act
+      const offline = getToken()
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'DistributeDividend', [
+        new CommandOption('amount', 1001),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INSUFFICIENT_BALANCE')
+    })
+  })
+
+  describe('splits should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const owners = [ 'random1', 'random2' ].map(n => getTestAccount(n))
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [
+        { name: 'Default', owner: owners[0].publicKey, account: owners[0].publicKey, amount: 25 },
+        { name: 'Default', owner: owners[1].publicKey, account: owners[1].publicKey, amount: 14 },
+      ],
+      balances: { [token.target.publicKey]: { [token.identifier.toMosaicId().toHex()]: 61 } },
+    }))
+
+    it('issue shares to partitions in stock splits', async () => {
+      // act
+      await offline.synchronize()
+      const report = await offline.getSplitReport(offline.identifier, 'StockSplit', [new CommandOption('ratio', 2)])
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'StockSplit',
+        new TransactionParameters(),
+        [new CommandOption('ratio', 2)],
+      )
+
+      // assert
+      expect(report.entries.map(e => e.after)).to.deep.equal([ 50, 28 ])
+      expect(report.totalAfter).to.be.equal(200)
+      expect(plan.steps[1].type).to.be.equal('MOSAIC_SUPPLY_CHANGE')
+      expect(plan.steps.slice(2).map(s => s.mosaics[0].amount.compact())).to.deep.equal([ 25, 14 ])
+    })
+
+    it('apply fractional policies in reverse splits', async () => {
+      // act
+      await offline.synchronize()
+      const cash = await offline.getSplitReport(offline.identifier, 'ReverseSplit', [new CommandOption('ratio', 10)])
+      const round = await offline.getSplitReport(offline.identifier, 'ReverseSplit', [
+        new CommandOption('ratio', 10),
+        new CommandOption('policy', NIP13.FractionalPolicy.RoundHalfUp),
+      ])
+
+      // assert
+      expect(cash.entries.map(e => e.after)).to.deep.equal([ 2, 1 ])
+      expect(cash.cashInLieu.map(e => e.fraction)).to.deep.equal([ 0.5, 0.4 ])
+      expect(round.entries.map(e => e.after)).to.deep.equal([ 3, 1 ])
+      expect(round.treasuryAfter).to.be.equal(6)
+    })
+
+    it('redeem shares from partitions before burning in reverse splits', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'ReverseSplit',
+        new TransactionParameters(),
+        [new CommandOption('ratio', 10)],
+      )
+
+      // assert
+      expect(plan.steps.map(s => s.role)).to.deep.equal([ 'target', 'partition', 'partition', 'target' ])
+      expect(plan.steps[3].type).to.be.equal('MOSAIC_SUPPLY_CHANGE')
+    })
+
+    it('refuse to split while shares are locked', async () => {
+      // prepare
+      const locked = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        mosaic: { supply: 100 },
+        partitions: [{ name: 'Default', owner: owners[0].publicKey, account: owners[0].publicKey, amount: 25 }],
+        balances: { [token.target.publicKey]: { [token.identifier.toMosaicId().toHex()]: 50 } },
+      }))
+
+      // act
+      await locked.synchronize()
+      const report = await locked.getSplitReport(locked.identifier, 'StockSplit', [new CommandOption('ratio', 2)])
+      const result = locked.canExecute(operator, locked.identifier, 'StockSplit', [new CommandOption('ratio', 2)])
+
+      // assert
+      expect(report.treasuryBefore).to.be.equal(50)
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+  })
+
+  describe('SnapshotService should', () => {
+    it('replay transfer history up to height', () => {
+      // prepare
+      const target = token.target
+      const owner = getTestAccount('random1')
+      const partition = new TokenPartition('Default', owner, token.getOperator(2).publicAccount, 0)
+      const mosaicId = token.identifier.toMosaicId()
+      const confirmed = (height: number, transactions: InnerTransaction[]) => new AggregateTransaction(
+        token.network.networkType,
+        TransactionType.AGGREGATE_COMPLETE,
+        1,
+        Deadline.create(),
+        UInt64.fromUint(0),
+        transactions,
+        [],
+        undefined,
+        undefined,
+        new TransactionInfo(UInt64.fromUint(height), 0, '' + height),
+      )
+      const issue = (amount: number) => TransferTransaction.create(
+        Deadline.create(),
+        partition.account.address,
+        [new Mosaic(mosaicId, UInt64.fromUint(amount))],
+        EmptyMessage,
+        token.network.networkType,
+      ).toAggregate(target)
+      const transactions = [
+        confirmed(10, [MosaicSupplyChangeTransaction.create(
+          Deadline.create(),
+          mosaicId,
+          MosaicSupplyChangeAction.Increase,
+          UInt64.fromUint(100),
+          token.network.networkType,
+        ).toAggregate(target)]),
+        confirmed(20, [issue(30)]),
+        confirmed(30, [issue(20)]),
+      ]
+
+      // act
+      const service = new SnapshotService(getTestContext(token.network.gatewayUrl))
+      const snapshot = service.getSnapshot(token.identifier, target, [partition], transactions, UInt64.fromUint(25))
+
+      // assert
+      expect(snapshot.treasury).to.be.equal(70)
+      expect(snapshot.partitions[0].amount).to.be.equal(30)
+      expect(snapshot.owners[0].amount).to.be.equal(30)
+      expect(snapshot.total).to.be.equal(100)
+      expect(Object.isFrozen(snapshot.partitions[0])).to.be.true
+    })
+
+    it('replay secret locks, proofs and expired locks', () => {
+      // prepare
+      const target = token.target
+      const partition = new TokenPartition('Default', getTestAccount('random1'), token.getOperator(2).publicAccount, 0)
+      const mosaicId = token.identifier.toMosaicId()
+      const secrets = [ NIP13.SwapSecret.generate(), NIP13.SwapSecret.generate() ]
+      const confirmed = (height: number, transactions: InnerTransaction[]) => new AggregateTransaction(
+        token.network.networkType,
+        TransactionType.AGGREGATE_COMPLETE,
+        1,
+        Deadline.create(),
+        UInt64.fromUint(0),
+        transactions,
+        [],
+        undefined,
+        undefined,
+        new TransactionInfo(UInt64.fromUint(height), 0, '' + height),
+      )
+      const lock = (secret: NIP13.SwapSecret, amount: number, duration: number) => SecretLockTransaction.create(
+        Deadline.create(),
+        new Mosaic(mosaicId, UInt64.fromUint(amount)),
+        UInt64.fromUint(duration),
+        NIP13.SwapSecret.HASH_ALGORITHM,
+        secret.secret,
+        partition.account.address,
+        token.network.networkType,
+      ).toAggregate(target)
+      const transactions = [
+        confirmed(10, [MosaicSupplyChangeTransaction.create(
+          Deadline.create(),
+          mosaicId,
+          MosaicSupplyChangeAction.Increase,
+          UInt64.fromUint(100),
+          token.network.networkType,
+        ).toAggregate(target)]),
+        confirmed(20, [lock(secrets[0], 30, 10)]),
+        confirmed(21, [lock(secrets[1], 20, 100)]),
+        confirmed(25, [SecretProofTransaction.create(
+          Deadline.create(),
+          NIP13.SwapSecret.HASH_ALGORITHM,
+          secrets[1].secret,
+          partition.account.address,
+          secrets[1].proof,
+          token.network.networkType,
+        ).toAggregate(partition.account)]),
+      ]
+
+      // act
+      const service = new SnapshotService(getTestContext(token.network.gatewayUrl))
+      const getSnapshot = (height: number) => service.getSnapshot(
+        token.identifier, target, [partition], transactions, UInt64.fromUint(height)
+      )
+
+      // assert
+      expect(getSnapshot(22).treasury).to.be.equal(50)
+      expect(getSnapshot(22).partitions[0].amount).to.be.equal(0)
+      expect(getSnapshot(26).partitions[0].amount).to.be.equal(20)
+      expect(getSnapshot(30).treasury).to.be.equal(80)
+      expect(getSnapshot(30).total).to.be.equal(100)
+    })
+
+    it('list closed partitions up to their close height', () => {
+      // prepare
+      const target = token.target
+      const partition = new TokenPartition('Default', getTestAccount('random1'), token.getOperator(2).publicAccount, 0)
+      const mosaicId = token.identifier.toMosaicId()
+      const confirmed = (height: number, transactions: InnerTransaction[]) => new AggregateTransaction(
+        token.network.networkType,
+        TransactionType.AGGREGATE_COMPLETE,
+        1,
+        Deadline.create(),
+        UInt64.fromUint(0),
+        transactions,
+        [],
+        undefined,
+        undefined,
+        new TransactionInfo(UInt64.fromUint(height), 0, '' + height),
+      )
+      const transfer = (signer: PublicAccount, recipient: Address, amount: number, message: string) =>
+        TransferTransaction.create(
+          Deadline.create(),
+          recipient,
+          amount > 0 ? [new Mosaic(mosaicId, UInt64.fromUint(amount))] : [],
+          PlainMessage.create(message),
+          token.network.networkType,
+        ).toAggregate(signer)
+      const transactions = [
+        confirmed(10, [MosaicSupplyChangeTransaction.create(
+          Deadline.create(),
+          mosaicId,
+          MosaicSupplyChangeAction.Increase,
+          UInt64.fromUint(100),
+          token.network.networkType,
+        ).toAggregate(target)]),
+        confirmed(20, [
+          transfer(target, partition.account.address, 0, 'NIP13(v1):partition:' + token.identifier.id + ':Default'),
+          transfer(target, partition.account.address, 30, ''),
+        ]),
+        confirmed(30, [
+          transfer(partition.account, target.address, 30, ''),
+          transfer(target, partition.account.address, 0, 'NIP13(v1):close:' + token.identifier.id + ':Default'),
+        ]),
+      ]
+
+      // act
+      const service = new SnapshotService(getTestContext(token.network.gatewayUrl))
+      const getSnapshot = (height: number) => service.getSnapshot(
+        token.identifier, target, [partition], transactions, UInt64.fromUint(height)
+      )
+
+      // assert
+      expect(getSnapshot(25).partitions).to.have.lengthOf(1)
+      expect(getSnapshot(25).partitions[0].amount).to.be.equal(30)
+      expect(getSnapshot(30).partitions).to.have.lengthOf(0)
+      expect(getSnapshot(30).treasury).to.be.equal(100)
+    })
+  })
+
+  describe('state reads should', () => {
+    // prepare
+    const holder = getTestAccount('random1')
+    const locker = token.getOperator(4).publicAccount
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      height: 500,
+      mosaic: { supply: 100, height: 100, duration: 1000 },
+      namespace: { endHeight: 2000 },
+      partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 30 }],
+      notifications: [
+        { recipient: holder.address.plain(), message: 'Dividend announced' },
+        { recipient: locker.address.plain(), message: 'Vesting started' },
+      ],
+      vestingSchedules: { [locker.publicKey]: { amount: 40, start: 0, cliff: 0, period: 10, tranches: 4 } },
+      balances: { [locker.publicKey]: { [token.identifier.toMosaicId().toHex()]: 30 } },
+    }))
+
+    it('use the state provider instead of the network', async () => {
+      // act
+      const notifications = await offline.getNotifications(holder)
+      const expiry = await offline.getExpiry('company.shares')
+      const snapshot = await offline.getSnapshot(UInt64.fromUint(400))
+      const vesting = await offline.getVestingSchedule(locker)
+      const csv = await offline.exportCapTable(new NIP13.CsvCapTableExporter())
+
+      // assert
+      expect(notifications).to.have.lengthOf(1)
+      expect(notifications[0].message).to.be.equal('Dividend announced')
+      expect(expiry.mosaicRemainingBlocks).to.be.equal(600)
+      expect(expiry.namespaceRemainingBlocks).to.be.equal(1500)
+      expect(snapshot.treasury).to.be.equal(70)
+      expect(snapshot.height.compact()).to.be.equal(400)
+      expect((vesting.schedule as NIP13.VestingSchedule).amount).to.be.equal(40)
+      expect(vesting.balance).to.be.equal(30)
+      expect(csv).to.contain('500')
+    })
+  })
+
+  describe('exportCapTable() should', () => {
+    // prepare
+    const owners = [ 'random1', 'random2' ].map(n => getTestAccount(n))
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      partitions: [
+        { name: 'Default', owner: owners[0].publicKey, account: owners[0].publicKey, amount: 30 },
+        { name: 'Class "A", voting', owner: owners[1].publicKey, account: owners[1].publicKey, amount: 10 },
+      ],
+      metadata: { isin: 'US0378331005' },
+    }))
+
+    it('export CSV with header block and stable columns', async () => {
+      // act
+      const csv = await offline.exportCapTable(new NIP13.CsvCapTableExporter(), UInt64.fromUint(1234))
+      const lines = csv.trim().split('\n')
+
+      // assert
+      expect(lines[0]).to.be.equal('# token_id: ' + offline.identifier.id)
+      expect(lines[1]).to.be.equal('# isin: US0378331005')
+      expect(lines[2]).to.be.equal('# height: 1234')
+      expect(lines[4]).to.be.equal('partition_name,owner_address,partition_address,amount,percentage')
+      expect(lines).to.have.lengthOf(7)
+      expect(csv).to.contain('"Class ""A"", voting"')
+    })
+
+    it('export JSON rows with percentage ownership', async () => {
+      // act
+      const json = JSON.parse(await offline.exportCapTable(new NIP13.JsonCapTableExporter(), UInt64.fromUint(1234)))
+      const percentages = json.rows.map((r: {[k: string]: number}) => r.percentage).sort()
+
+      // assert
+      expect(json.header.height).to.be.equal('1234')
+      expect(json.header.total).to.be.equal(40)
+      expect(Object.keys(json.rows[0])).to.deep.equal(json.columns)
+      expect(percentages).to.deep.equal([ 25, 75 ])
+    })
+  })
+
+  describe('ManageWhitelist should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const guests = [ 'random1', 'random2' ].map(n => getTestAccount(n).address)
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      roles: [{ address: guests[0].plain(), role: NIP13.UserRole.Guest }],
+    }))
+    const getRestrictions = async (argv: CommandOption[]) => {
+      await offline.synchronize()
+      const uri = offline.executeWithoutSync(operator, offline.identifier, 'ManageWhitelist', new TransactionParameters(), argv)
+      const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+      return contract.innerTransactions.slice(1) as MosaicAddressRestrictionTransaction[]
+    }
+
+    it('assign roles to addresses in bulk', async () => {
+      const restrictions = await getRestrictions([
+        new CommandOption('addresses', guests),
+        new CommandOption('role', NIP13.UserRole.Holder),
+      ])
+
+      expect(restrictions).to.have.lengthOf(2)
+      expect(restrictions[0].newRestrictionValue.compact()).to.be.equal(NIP13.UserRole.Holder)
+      expect(restrictions[0].previousRestrictionValue.compact()).to.be.equal(NIP13.UserRole.Guest)
+      expect(restrictions[1].previousRestrictionValue.toHex()).to.be.equal('FFFFFFFFFFFFFFFF')
+    })
+
+    it('remove roles from addresses', async () => {
+      const restrictions = await getRestrictions([
+        new CommandOption('addresses', [guests[0]]),
+        new CommandOption('role', NIP13.UserRole.Guest),
+        new CommandOption('remove', true),
+      ])
+
+      expect(restrictions[0].previousRestrictionValue.compact()).to.be.equal(NIP13.UserRole.Guest)
+      expect(restrictions[0].newRestrictionValue.toHex()).to.be.equal('FFFFFFFFFFFFFFFF')
+    })
+
+    it('refuse to remove roles that are not assigned', async () => {
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'ManageWhitelist', [
+        new CommandOption('addresses', guests),
+        new CommandOption('role', NIP13.UserRole.Guest),
+        new CommandOption('remove', true),
+      ])
+
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+
+    it('refuse to modify the target role', async () => {
+      const result = offline.canExecute(operator, offline.identifier, 'ManageWhitelist', [
+        new CommandOption('addresses', [offline.target.address]),
+        new CommandOption('role', NIP13.UserRole.Guest),
+      ])
+
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+  })
+
+  describe('RoleService should', () => {
+    it('map address restriction values to roles', () => {
+      // prepare
+      const key = KeyGenerator.generateUInt64Key('User_Role')
+      const service = new RoleService(getTestContext(token.network.gatewayUrl))
+
+      // assert
+      expect(service.isRoleKey(key.toString())).to.be.true
+      expect(service.isRoleKey(key.toHex())).to.be.true
+      expect(service.getRole('2')).to.be.equal(NIP13.UserRole.Holder)
+      expect(service.getRole('4')).to.be.equal(NIP13.UserRole.Guest)
+      expect(service.getRole('18446744073709551615')).to.be.undefined // unset
+    })
+  })
+
+  describe('vesting commands should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const holder = getTestAccount('random1')
+    const locker = token.getOperator(4).publicAccount
+    const schedule = new NIP13.VestingSchedule(100, 1000, 500, 100, 4)
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      height: 1650,
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 100 }],
+      balances: { [locker.publicKey]: { [token.identifier.toMosaicId().toHex()]: 75 } },
+      vestingSchedules: { [locker.publicKey]: { amount: 100, start: 1000, cliff: 500, period: 100, tranches: 4 } },
+    }))
+
+    it('vest tranches after the cliff', () => {
+      // assert
+      expect(schedule.getVestedAmount(1499)).to.be.equal(0)
+      expect(schedule.getVestedAmount(1500)).to.be.equal(25)
+      expect(schedule.getVestedAmount(1650)).to.be.equal(50)
+      expect(schedule.getVestedAmount(9999)).to.be.equal(100)
+      expect(NIP13.VestingSchedule.fromMetadata(schedule.toMetadata())).to.deep.equal(schedule)
+    })
+
+    it('persist the schedule as locker account metadata', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'CreateVestingSchedule',
+        new TransactionParameters(),
+        [
+          new CommandOption('partition', offline.partitions[0].account),
+          new CommandOption('locker', locker),
+          new CommandOption('schedule', schedule),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':vest:')
+      expect(plan.steps[plan.steps.length - 1].type).to.be.equal('ACCOUNT_METADATA')
+      expect(plan.steps[plan.steps.length - 1].role).to.be.equal('locker')
+    })
+
+    it('release only the vested shares that were not released yet', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'ReleaseVested',
+        new TransactionParameters(),
+        [
+          new CommandOption('partition', offline.partitions[0].account),
+          new CommandOption('locker', locker),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':release:')
+      expect(plan.steps[plan.steps.length - 1].mosaics[0].amount.compact()).to.be.equal(25)
+    })
+
+    it('refuse to release with arguments that do not match the network', async () => {
+      // act
+      await offline.synchronize()
+      const argv: CommandOption[] = [
+        new CommandOption('partition', offline.partitions[0].account),
+        new CommandOption('locker', locker),
+      ]
+      const results = [
+        new CommandOption('schedule', new NIP13.VestingSchedule(200, 1000, 500, 100, 4)),
+        new CommandOption('balance', 100),
+        new CommandOption('at', 1651),
+      ].map(option => offline.canExecute(operator, offline.identifier, 'ReleaseVested', argv.concat([option])))
+
+      // assert
+      results.forEach(result => expect(result.status).to.be.false)
+      expect(results[0].code).to.be.equal('INVALID_ARGUMENT')
+    })
+
+    it('refuse to release timestamp schedules beyond the current chain time', async () => {
+      // prepare
+      const timed = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        height: 1650,
+        timestamp: 1650,
+        operators: [operator.publicKey],
+        mosaic: { supply: 100 },
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 100 }],
+        balances: { [locker.publicKey]: { [token.identifier.toMosaicId().toHex()]: 75 } },
+        vestingSchedules: { [locker.publicKey]: {
+          amount: 100, start: 1000, cliff: 500, period: 100, tranches: 4, unit: 'timestamp',
+        } },
+      }))
+
+      // act
+      await timed.synchronize()
+      const argv: CommandOption[] = [
+        new CommandOption('partition', timed.partitions[0].account),
+        new CommandOption('locker', locker),
+      ]
+      const future = timed.canExecute(operator, timed.identifier, 'ReleaseVested', argv.concat([
+        new CommandOption('at', 9999),
+      ]))
+      const plan = await timed.explain(operator, timed.identifier, 'ReleaseVested', new TransactionParameters(), argv)
+
+      // assert
+      expect(future.status).to.be.false
+      expect(future.code).to.be.equal('INVALID_ARGUMENT')
+      expect(plan.steps[plan.steps.length - 1].mosaics[0].amount.compact()).to.be.equal(25)
+    })
+  })
+
+  describe('SettleTrade should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const seller = getTestAccount('random1')
+    const buyer = getTestAccount('random2')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [
+        { name: 'Seller', owner: seller.publicKey, account: getTestAccount('operator2').publicKey, amount: 10 },
+        { name: 'Buyer', owner: buyer.publicKey, account: getTestAccount('operator3').publicKey, amount: 0 },
+      ],
+      balances: { [buyer.publicKey]: { [token.network.feeMosaicId.toHex()]: 1000 } },
+    }))
+
+    it('deliver shares against payment in one aggregate', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'SettleTrade',
+        new TransactionParameters(),
+        [
+          new CommandOption('seller', offline.partitions[0].account),
+          new CommandOption('buyer', offline.partitions[1].account),
+          new CommandOption('amount', 5),
+          new CommandOption('price', 1000),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':settle:')
+      expect(plan.steps).to.have.lengthOf(4)
+      expect(plan.steps[1].role).to.be.equal('partition')
+      expect((plan.steps[2].recipient as Address).equals(offline.partitions[1].account.address)).to.be.true
+      expect(plan.steps[3].role).to.be.equal('holder')
+      expect((plan.steps[3].recipient as Address).equals(offline.partitions[0].owner.address)).to.be.true
+      expect(plan.steps[3].mosaics[0].amount.compact()).to.be.equal(1000)
+    })
+
+    it('refuse to settle with insufficient payment funds', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'SettleTrade', [
+        new CommandOption('seller', offline.partitions[0].account),
+        new CommandOption('buyer', offline.partitions[1].account),
+        new CommandOption('amount', 5),
+        new CommandOption('price', 1001),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INSUFFICIENT_BALANCE')
+    })
+
+    it('require signatures of seller and buyer partition owners', async () => {
+      // act
+      const estimate = await offline.estimateFee(
+        operator,
+        offline.identifier,
+        'SettleTrade',
+        new TransactionParameters(),
+        [
+          new CommandOption('seller', offline.partitions[0].account),
+          new CommandOption('buyer', offline.partitions[1].account),
+          new CommandOption('amount', 5),
+          new CommandOption('price', 1000),
+        ],
+      )
+
+      // assert
+      expect(estimate.cosignatures).to.be.equal(2) // seller and buyer
+    })
+  })
+
+  describe('swap commands should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const secret = NIP13.SwapSecret.generate()
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [
+        { name: 'Seller', owner: getTestAccount('random1').publicKey, account: getTestAccount('operator2').publicKey, amount: 10 },
+        { name: 'Buyer', owner: getTestAccount('random2').publicKey, account: getTestAccount('operator3').publicKey, amount: 0 },
+      ],
+    }))
+
+    it('lock shares from a partition toward a counterparty partition', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'LockSwap',
+        new TransactionParameters(),
+        [
+          new CommandOption('partition', offline.partitions[0].account),
+          new CommandOption('recipient', offline.partitions[1].account),
+          new CommandOption('amount', 5),
+          new CommandOption('secret', secret.secret),
+          new CommandOption('duration', 100),
+        ],
+      )
+
+      // assert
+      expect(secret.matches(secret.proof)).to.be.true
+      expect(plan.descriptor).to.contain(':swap-lock:')
+      expect(plan.steps[1].role).to.be.equal('partition')
+      expect(plan.steps[2].type).to.be.equal('SECRET_LOCK')
+      expect(plan.steps[2].role).to.be.equal('target')
+    })
+
+    it('claim open swap locks only', async () => {
+      // prepare
+      const [ claimed, refunded, expired ] = [ 1, 2, 3 ].map(() => NIP13.SwapSecret.generate())
+      const partitions = [ getTestAccount('operator2'), getTestAccount('operator3') ].map(a => a.publicKey)
+      const lock = { partition: partitions[0], recipient: partitions[1], amount: 5, height: 1000, duration: 100 }
+      const seeded = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        height: 1050,
+        operators: [operator.publicKey],
+        partitions: [
+          { name: 'Seller', owner: getTestAccount('random1').publicKey, account: partitions[0], amount: 5 },
+          { name: 'Buyer', owner: getTestAccount('random2').publicKey, account: partitions[1], amount: 0 },
+        ],
+        swapLocks: [
+          { ...lock, secret: secret.secret },
+          { ...lock, secret: claimed.secret, claimed: true },
+          { ...lock, secret: refunded.secret, refunded: true },
+          { ...lock, secret: expired.secret, height: 900 },
+        ],
+      }))
+
+      // act
+      await seeded.synchronize()
+      const getResult = (s: NIP13.SwapSecret, recipient = seeded.partitions[1].account, proof = s.proof) =>
+        seeded.canExecute(operator, seeded.identifier, 'ClaimSwap', [
+          new CommandOption('recipient', recipient),
+          new CommandOption('secret', s.secret),
+          new CommandOption('proof', proof),
+        ])
+
+      // assert
+      expect(getResult(secret).status).to.be.true
+      expect(getResult(claimed).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(refunded).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(expired).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(NIP13.SwapSecret.generate()).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(secret, seeded.partitions[0].account).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(secret, undefined, NIP13.SwapSecret.generate().proof).code).to.be.equal('INVALID_ARGUMENT')
+    })
+
+    it('refund expired swap locks only', () => {
+      // prepare
+      const lock = new NIP13.SwapLock(
+        secret.secret,
+        offline.partitions[0].account.address,
+        offline.partitions[1].account.address,
+        5,
+        UInt64.fromUint(1000),
+        UInt64.fromUint(100),
+      )
+
+      // assert
+      expect(lock.isRefundable(UInt64.fromUint(1099))).to.be.false
+      expect(lock.isRefundable(UInt64.fromUint(1100))).to.be.true
+      expect(lock.isClaimable(UInt64.fromUint(1099))).to.be.true
+      expect(lock.isClaimable(UInt64.fromUint(1100))).to.be.false
+    })
+
+    it('refund swap locks that are expired on chain', async () => {
+      // prepare
+      const claimed = NIP13.SwapSecret.generate()
+      const partitions = [ getTestAccount('operator2'), getTestAccount('operator3') ].map(a => a.publicKey)
+      const lock = { partition: partitions[0], recipient: partitions[1], amount: 5, height: 1000, duration: 100 }
+      const seeded = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        height: 1100,
+        operators: [operator.publicKey],
+        partitions: [
+          { name: 'Seller', owner: getTestAccount('random1').publicKey, account: partitions[0], amount: 5 },
+          { name: 'Buyer', owner: getTestAccount('random2').publicKey, account: partitions[1], amount: 0 },
+        ],
+        swapLocks: [
+          { ...lock, secret: secret.secret },
+          { ...lock, secret: claimed.secret, claimed: true },
+        ],
+      }))
+
+      // act
+      await seeded.synchronize()
+      const getResult = (s: string) => seeded.canExecute(operator, seeded.identifier, 'RefundSwap', [
+        new CommandOption('secret', s),
+      ])
+
+      // assert
+      expect(getResult(secret.secret).status).to.be.true
+      expect(getResult(claimed.secret).code).to.be.equal('INVALID_ARGUMENT')
+      expect(getResult(NIP13.SwapSecret.generate().secret).code).to.be.equal('INVALID_ARGUMENT')
+    })
+  })
+
+  describe('partition commands should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const holder = getTestAccount('random1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [
+        { name: 'Common', owner: holder.publicKey, account: getTestAccount('operator2').publicKey, amount: 10 },
+        { name: 'Preferred', owner: holder.publicKey, account: getTestAccount('operator3').publicKey, amount: 5 },
+        { name: 'Other', owner: getTestAccount('random2').publicKey, account: getTestAccount('target').publicKey, amount: 0 },
+      ],
+    }))
+
+    it('refuse to move shares between partitions of different owners', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'MovePartitionBalance', [
+        new CommandOption('sender', offline.partitions[0].account),
+        new CommandOption('recipient', offline.partitions[2].account),
+        new CommandOption('amount', 1),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+
+    it('create a new partition and move part of the balance', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'SplitPartition',
+        new TransactionParameters(),
+        [
+          new CommandOption('partition', offline.partitions[0].account),
+          new CommandOption('name', 'Escrow'),
+          new CommandOption('amount', 4),
+        ],
+      )
+
+      // assert
+      expect(plan.steps).to.have.lengthOf(9)
+      expect(plan.steps[5].message).to.contain(':partition:')
+      expect(plan.steps[6].message).to.contain(':split-partition:')
+      expect(plan.steps[8].mosaics[0].amount.compact()).to.be.equal(4)
+    })
+
+    it('merge the whole balance of partitions into one', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'MergePartitions',
+        new TransactionParameters(),
+        [
+          new CommandOption('partitions', [offline.partitions[1].account]),
+          new CommandOption('recipient', offline.partitions[0].account),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':merge:')
+      expect(plan.steps).to.have.lengthOf(3)
+      expect((plan.steps[2].recipient as Address).equals(offline.partitions[0].account.address)).to.be.true
+      expect(plan.steps[2].mosaics[0].amount.compact()).to.be.equal(5)
+    })
+
+    it('refuse to merge the same partition more than once', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'MergePartitions', [
+        new CommandOption('partitions', [ offline.partitions[1].account, offline.partitions[1].account ]),
+        new CommandOption('recipient', offline.partitions[0].account),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+  })
+
+  describe('ClosePartition should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const holder = getTestAccount('random1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [{ name: 'Common', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+    }))
+
+    it('sweep the balance, remove the role and clear metadata', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'ClosePartition',
+        new TransactionParameters(),
+        [new CommandOption('partition', offline.partitions[0].account)],
+      )
+
+      // assert
+      expect(plan.steps.map(s => s.type)).to.deep.equal([
+        'TRANSFER',
+        'MOSAIC_ADDRESS_RESTRICTION',
+        'ACCOUNT_METADATA',
+        'ACCOUNT_METADATA',
+        'TRANSFER',
+      ])
+      expect(plan.steps[0].mosaics[0].amount.compact()).to.be.equal(10)
+      expect(plan.steps[4].message).to.contain(':close:')
+    })
+
+    it('clear the derivation nonce of resolved partition accounts', async () => {
+      // prepare
+      const resolved = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        mosaic: { supply: 100 },
+        partitions: [{ name: 'Common', owner: holder.publicKey, account: holder.publicKey, amount: 10, nonce: 1 }],
+      }))
+
+      // act
+      await resolved.synchronize()
+      const plan = await resolved.explain(
+        operator,
+        resolved.identifier,
+        'ClosePartition',
+        new TransactionParameters(),
+        [new CommandOption('partition', resolved.partitions[0].account)],
+      )
+
+      // assert
+      expect(plan.steps).to.have.lengthOf(6)
+      expect(plan.steps[4].type).to.be.equal('ACCOUNT_METADATA')
+      expect(plan.steps[5].message).to.contain(':close:')
+    })
+
+    it('exclude closed partitions unless created again', () => {
+      // prepare
+      const service = new PartitionService(getTestContext(token.network.gatewayUrl))
+      const descriptor = 'NIP13(v1):partition:' + token.identifier.id + ':'
+      const marker = (account: Address, message: string) => TransferTransaction.create(
+        Deadline.create(),
+        account,
+        [],
+        PlainMessage.create(message),
+        token.network.networkType,
+      )
+      const first = getTestAccount('operator2').address
+      const second = getTestAccount('operator3').address
+
+      // act
+      const closed = service.getClosedPartitions(token.identifier, [
+        marker(first, descriptor + 'Common'),
+        marker(second, descriptor + 'Preferred'),
+        marker(first, 'NIP13(v1):close:' + token.identifier.id + ':Common'),
+        marker(second, 'NIP13(v1):close:' + token.identifier.id + ':Preferred'),
+        marker(second, descriptor + 'Preferred'),
+      ], descriptor)
+
+      // assert
+      expect(closed).to.deep.equal([first.plain()])
+    })
+  })
+
+  describe('ReassignPartitionOwner should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [{
+        name: 'Common',
+        owner: getTestAccount('random1').publicKey,
+        account: getTestAccount('operator2').publicKey,
+        amount: 10,
+      }],
+    }))
+    const getArguments = (filenode: string) => [
+      new CommandOption('partition', offline.partitions[0].account),
+      new CommandOption('holder', getTestAccount('random2')),
+      new CommandOption('filenode', filenode),
+      new CommandOption('filename', 'court-order.pdf'),
+    ]
+
+    it('swap the holder cosignatory and update owner metadata', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'ReassignPartitionOwner',
+        new TransactionParameters(),
+        getArguments('QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'),
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':reassign:')
+      expect(plan.steps[1].message).to.be.equal('court-order.pdf:QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG')
+      expect(plan.steps[2].type).to.be.equal('MULTISIG_ACCOUNT_MODIFICATION')
+      expect(plan.steps[3].type).to.be.equal('ACCOUNT_METADATA')
+    })
+
+    it('require a supporting document and operator rights', async () => {
+      // act
+      await offline.synchronize()
+      const invalid = offline.canExecute(operator, offline.identifier, 'ReassignPartitionOwner', getArguments('abc'))
+      const holder = offline.canExecute(
+        offline.partitions[0].owner,
+        offline.identifier,
+        'ReassignPartitionOwner',
+        getArguments('QmYwAPJzv5CZsnA625s3Xf2nemtYgPpHdWEz79ojWnPbdG'),
+      )
+
+      // assert
+      expect(invalid.status).to.be.false
+      expect(invalid.code).to.be.equal('INVALID_IPFS_HASH')
+      expect(holder.status).to.be.false
+    })
+  })
+
+  describe('operator quorum policies should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [ operator.publicKey, getTestAccount('operator3').publicKey, getTestAccount('random1').publicKey ],
+      mosaic: { supply: 100 },
+    }))
+
+    it('resolve quorum rules against the number of operators', () => {
+      // prepare
+      const majority = new NIP13.QuorumPolicy('majority', 'all-but-one')
+      const twoOfThree = new NIP13.QuorumPolicy(2, 2)
+
+      // assert
+      expect(majority.getMinApproval(3)).to.be.equal(2)
+      expect(majority.getMinApproval(4)).to.be.equal(3)
+      expect(NIP13.QuorumPolicy.DEFAULT.getMinRemoval(3)).to.be.equal(2)
+      expect(twoOfThree.isValid(3)).to.be.true
+      expect(twoOfThree.isValid(1)).to.be.false
+    })
+
+    it('change the threshold of the target account', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'ChangeOperatorThreshold',
+        new TransactionParameters(),
+        [new CommandOption('policy', new NIP13.QuorumPolicy(2, 2))],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':threshold:')
+      expect(plan.steps[0].message).to.contain(':2-of-3')
+      expect(plan.steps[1].type).to.be.equal('MULTISIG_ACCOUNT_MODIFICATION')
+    })
+
+    it('compute quorum deltas from the multisig account of the target', async () => {
+      // prepare
+      const seeded = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [ operator.publicKey, getTestAccount('operator3').publicKey, getTestAccount('random1').publicKey ],
+        quorum: { minApproval: 2, minRemoval: 1 },
+      }))
+
+      // act
+      await seeded.synchronize()
+      const uri = await seeded.execute(
+        operator,
+        seeded.identifier,
+        'ChangeOperatorThreshold',
+        new TransactionParameters(),
+        [new CommandOption('policy', new NIP13.QuorumPolicy(2, 2))],
+      )
+      const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+      const modification = contract.innerTransactions[1] as MultisigAccountModificationTransaction
+
+      // assert
+      expect(seeded.multisigInfo).to.deep.include({ minApproval: 2, minRemoval: 1 })
+      expect(modification.minApprovalDelta).to.be.equal(0)
+      expect(modification.minRemovalDelta).to.be.equal(1)
+    })
+
+    it('refuse to remove operators below the policy threshold', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'RevokeIssuerPower', [
+        new CommandOption('operator', offline.operators[2]),
+        new CommandOption('policy', new NIP13.QuorumPolicy(3, 3)),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INVALID_ARGUMENT')
+    })
+
+    it('keep the stored policy when operators are added or removed', async () => {
+      // prepare
+      const holder = getTestAccount('random2')
+      const seeded = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [ operator.publicKey, getTestAccount('operator3').publicKey, getTestAccount('random1').publicKey ],
+        quorum: { minApproval: 2, minRemoval: 1 },
+        policy: { approval: 2, removal: 1 },
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 0 }],
+      }))
+      const getModifications = async (command: string, argv: CommandOption[]) => {
+        const uri = await seeded.execute(operator, seeded.identifier, command, new TransactionParameters(), argv)
+        const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+        return contract.innerTransactions.filter(
+          tx => tx instanceof MultisigAccountModificationTransaction
+        ) as MultisigAccountModificationTransaction[]
+      }
+
+      // act
+      await seeded.synchronize()
+      const added = await getModifications('DelegateIssuerPower', [
+        new CommandOption('operator', getTestAccount('operator2')),
+      ])
+      const removed = await getModifications('RevokeIssuerPower', [
+        new CommandOption('operator', seeded.operators[2]),
+      ])
+
+      // assert
+      expect(added).to.have.lengthOf(2)
+      expect(removed).to.have.lengthOf(2)
+      added.concat(removed).forEach(modification => {
+        expect(modification.minApprovalDelta).to.be.equal(0)
+        expect(modification.minRemovalDelta).to.be.equal(0)
+      })
+    })
+
+    it('apply the policy to partitions and store it in target metadata', async () => {
+      // prepare
+      const holder = getTestAccount('random2')
+      const seeded = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [ operator.publicKey, getTestAccount('operator3').publicKey, getTestAccount('random1').publicKey ],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 0 }],
+      }))
+
+      // act
+      await seeded.synchronize()
+      const uri = await seeded.execute(
+        operator,
+        seeded.identifier,
+        'ChangeOperatorThreshold',
+        new TransactionParameters(),
+        [new CommandOption('policy', new NIP13.QuorumPolicy('all', 'all'))],
+      )
+      const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+      const metadata = contract.innerTransactions[2] as AccountMetadataTransaction
+      const partition = contract.innerTransactions[3] as MultisigAccountModificationTransaction
+
+      // assert
+      expect(metadata.scopedMetadataKey.equals(KeyGenerator.generateUInt64Key('Quorum_Policy'))).to.be.true
+      expect(metadata.value).to.be.equal(new NIP13.QuorumPolicy('all', 'all').toMetadata())
+      expect((partition.signer as PublicAccount).address.equals(seeded.partitions[0].account.address)).to.be.true
+      expect(partition.minApprovalDelta).to.be.equal(0)
+      expect(partition.minRemovalDelta).to.be.equal(1)
+    })
+  })
+
+  describe('supply commands should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const holder = getTestAccount('random1')
+    const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+      operators: [operator.publicKey],
+      mosaic: { supply: 100 },
+      partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      balances: { [token.target.publicKey]: { [token.identifier.toMosaicId().toHex()]: 90 } },
+    }))
+
+    it('mint shares directly into a partition', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'MintTokens',
+        new TransactionParameters(),
+        [
+          new CommandOption('amount', 5),
+          new CommandOption('partition', offline.partitions[0].account),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':mint:')
+      expect(plan.steps).to.have.lengthOf(3)
+      expect(plan.steps[1].type).to.be.equal('MOSAIC_SUPPLY_CHANGE')
+      expect((plan.steps[2].recipient as Address).equals(offline.partitions[0].account.address)).to.be.true
+      expect(plan.steps[2].mosaics[0].amount.compact()).to.be.equal(5)
+    })
+
+    it('redeem shares from a partition before burning', async () => {
+      // act
+      await offline.synchronize()
+      const plan = await offline.explain(
+        operator,
+        offline.identifier,
+        'BurnTokens',
+        new TransactionParameters(),
+        [
+          new CommandOption('amount', 5),
+          new CommandOption('partition', offline.partitions[0].account),
+        ],
+      )
+
+      // assert
+      expect(plan.descriptor).to.contain(':burn:')
+      expect(plan.steps).to.have.lengthOf(3)
+      expect(plan.steps[1].role).to.be.equal('partition')
+      expect(plan.steps[2].type).to.be.equal('MOSAIC_SUPPLY_CHANGE')
+    })
+
+    it('refuse to burn more than the partition balance', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'BurnTokens', [
+        new CommandOption('amount', 11),
+        new CommandOption('partition', offline.partitions[0].account),
+      ])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INSUFFICIENT_BALANCE')
+    })
+
+    it('refuse to burn more than the target balance', async () => {
+      // act
+      await offline.synchronize()
+      const result = offline.canExecute(operator, offline.identifier, 'BurnTokens', [new CommandOption('amount', 91)])
+      const burn = offline.canExecute(operator, offline.identifier, 'BurnTokens', [new CommandOption('amount', 90)])
+
+      // assert
+      expect(result.status).to.be.false
+      expect(result.code).to.be.equal('INSUFFICIENT_BALANCE')
+      expect(burn.status).to.be.true
+    })
+  })
+
+  describe('RenewToken should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const getPlan = async (duration: number) => {
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        mosaic: { supply: 100, duration },
+      }))
+
+      await offline.synchronize()
+      return offline.explain(
+        operator,
+        offline.identifier,
+        'RenewToken',
+        new TransactionParameters(),
+        [
+          new CommandOption('name', 'company.shares'),
+          new CommandOption('duration', 1000),
+        ],
+      )
+    }
+
+    it('extend root namespace and mosaic durations', async () => {
+      const plan = await getPlan(2010240)
+      expect(plan.steps).to.have.lengthOf(3)
+      expect(plan.steps[1].type).to.be.equal('NAMESPACE_REGISTRATION')
+      expect(plan.steps[2].type).to.be.equal('MOSAIC_DEFINITION')
+    })
+
+    it('not extend eternal mosaics', async () => {
+      const plan = await getPlan(0)
+      expect(plan.steps).to.have.lengthOf(2)
+      expect(plan.steps[1].type).to.be.equal('NAMESPACE_REGISTRATION')
+    })
+  })
+
+  describe('TokenExpiry should', () => {
+    it('report remaining blocks and eternal durations', () => {
+      // act
+      const expiry = new NIP13.TokenExpiry(UInt64.fromUint(1000), UInt64.fromUint(1500), undefined)
+
+      // assert
+      expect(expiry.namespaceRemainingBlocks).to.be.equal(500)
+      expect(expiry.mosaicRemainingBlocks).to.be.undefined
+      expect(expiry.expiresWithin(100)).to.be.false
+      expect(expiry.expiresWithin(501)).to.be.true
+    })
+  })
+
+  describe('notify() should', () => {
+    it('sign marked notification contract initiated by operators', async () => {
+      // prepare
+      const operator = token.getOperator(1).publicAccount
+      const account = getTestAccount('random1')
+      const notification = new Notification(account.address, 'Dividend announced')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+      }))
+      const announcer = new NIP13.InMemoryTokenAnnouncer()
+
+      // act
+      const parameters = new TransactionParameters()
+      const proof = await offline.notify(offline.identifier, account, notification, parameters)
+      const notified = announcer.announced.length
+      await offline.announce(offline.target, offline.identifier, 'Notify', parameters, [
+        new CommandOption('account', account),
+        new CommandOption('notification', notification),
+      ], announcer)
+      const announced = announcer.announced[announcer.announced.length - 1]
+      const contract = TransactionMapping.createFromPayload(announced.payload) as AggregateTransaction
+      const transfer = contract.innerTransactions[0] as TransferTransaction
+
+      // assert
+      expect(notified).to.be.equal(0)
+      expect(proof.transactionHash).to.be.equal(announced.hash)
+      expect(announced.signerPublicKey).to.be.equal(operator.publicKey)
+      expect((transfer.signer as PublicAccount).publicKey).to.be.equal(offline.target.publicKey)
+      expect(transfer.message.payload).to.be.equal(
+        'NIP13(v1):notify:' + offline.identifier.id + ':Dividend announced'
+      )
+    })
+  })
+
+
+  describe('partition collisions should', () => {
+    // prepare
+    const operator = getTestAccount('operator1')
+    const owner = token.getOperator(3).publicAccount
+    const other = getTestAccount('random2')
+    const derived = [ token.getPartition(owner, 'Default', 0), token.getPartition(owner, 'Default', 1) ]
+    const collision = { name: 'Savings', owner: other.publicKey, account: derived[0].publicKey, amount: 0 }
+
+    it('report used partition accounts with code', async () => {
+      // prepare
+      const holder = getTestAccount('random1')
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [{ name: 'Default', owner: holder.publicKey, account: holder.publicKey, amount: 10 }],
+      }))
+
+      // act
+      await offline.synchronize()
+      const getResult = (name: string) => offline.canExecute(operator, offline.identifier, 'CreatePartition', [
+        new CommandOption('name', name),
+        new CommandOption('partition', offline.partitions[0].account),
+        new CommandOption('holder', offline.partitions[0].owner),
+      ])
+
+      // assert
+      expect(getResult('Default').code).to.be.equal('DUPLICATE_PARTITION')
+      expect(getResult('Other').code).to.be.equal('PARTITION_COLLISION')
+    })
+
+    it('resolve collisions and record the nonce in partition metadata', async () => {
+      // prepare
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [operator.publicKey],
+        partitions: [collision],
+      }))
+
+      // act
+      const parameters = new TransactionParameters()
+      const uri = await offline.addPartition(operator, derived[0].publicAccount, owner, 'Default', parameters)
+      const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+      const nonce = contract.innerTransactions[3] as AccountMetadataTransaction
+
+      // assert
+      expect(contract.innerTransactions).to.have.lengthOf(7)
+      expect((contract.innerTransactions[0].signer as PublicAccount).publicKey).to.be.equal(derived[1].publicKey)
+      expect(nonce.scopedMetadataKey.equals(KeyGenerator.generateUInt64Key('NONCE'))).to.be.true
+      expect(nonce.value).to.be.equal('1')
+    })
+
+    it('reproduce resolved partition accounts from partition metadata', async () => {
+      // prepare
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        partitions: [
+          collision,
+          { name: 'Default', owner: owner.publicKey, account: derived[1].publicKey, amount: 0, nonce: 1 },
+        ],
+      }))
+
+      // act
+      const resolved = await offline.resolvePartition(owner, 'Default')
+      const metadata = await offline.stateProvider.getPartitionMetadata(resolved.account)
+
+      // assert
+      expect(resolved.nonce).to.be.equal(1)
+      expect(resolved.account.publicKey).to.be.equal(derived[1].publicKey)
+      expect(metadata).to.deep.include({ nonce: 1 })
+      expect((metadata as NIP13.PartitionMetadata).isUsedBy(owner, 'Default')).to.be.true
+    })
+
+    it('sign with partition keys derived from the resolved nonce', async () => {
+      // prepare
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [token.getOperator(1).publicKey],
+        partitions: [collision],
+      }))
+
+      // act
+      const resolved = await offline.resolvePartition(owner, 'Default')
+      const result = await offline.sign(
+        token.getOperator(1).publicAccount,
+        offline.identifier,
+        'CreatePartition',
+        new TransactionParameters(),
+        [
+          new CommandOption('name', 'Default'),
+          new CommandOption('partition', resolved.account),
+          new CommandOption('holder', owner),
+          new CommandOption('nonce', resolved.nonce),
+        ],
+      )
+
+      // assert
+      expect(resolved.nonce).to.be.equal(1)
+      expect(result.signers.map(s => s.publicKey)).to.include(derived[1].publicKey)
+      expect(result.missing.map(m => m.publicKey)).to.not.include(derived[1].publicKey)
+    })
+
+    it('split partitions into resolved partition accounts', async () => {
+      // prepare
+      const common = token.getPartition(owner, 'Common').publicKey
+      const offline = new NIP13.Token(token.network, mnemonic, NIP13.InMemoryTokenState.fromJSON(token.identifier, {
+        operators: [token.getOperator(1).publicKey],
+        mosaic: { supply: 100 },
+        partitions: [
+          collision,
+          { name: 'Common', owner: owner.publicKey, account: common, amount: 10 },
+        ],
+      }))
+
+      // act
+      await offline.synchronize()
+      const parameters = new TransactionParameters()
+      const actor = token.getOperator(1).publicAccount
+      const uri = await offline.splitPartition(actor, offline.partitions[1].account, 'Default', 4, parameters)
+      const contract = TransactionMapping.createFromPayload(uri.data) as AggregateTransaction
+      const nonce = contract.innerTransactions[3] as AccountMetadataTransaction
+      const result = await offline.sign(actor, offline.identifier, 'SplitPartition', parameters, [
+        new CommandOption('partition', offline.partitions[1].account),
+        new CommandOption('name', 'Default'),
+        new CommandOption('amount', 4),
+        new CommandOption('nonce', 1),
+      ])
+      const refused = offline.canExecute(actor, offline.identifier, 'SplitPartition', [
+        new CommandOption('partition', offline.partitions[1].account),
+        new CommandOption('name', 'Default'),
+        new CommandOption('amount', 4),
+      ])
+
+      // assert
+      expect(refused.code).to.be.equal('PARTITION_COLLISION')
+      expect((contract.innerTransactions[0].signer as PublicAccount).publicKey).to.be.equal(derived[1].publicKey)
+      expect(nonce.value).to.be.equal('1')
+      expect(result.signers.map(s => s.publicKey)).to.include(derived[1].publicKey)
+    })
   })
 })